@@ -1,32 +1,55 @@
 #!/usr/bin/env bun
 
+import { readFile } from 'fs/promises';
 import { Command } from 'commander';
 import chalk from 'chalk';
 import ora from 'ora';
 import { version } from './package.json';
-import { InstanceManager } from './src/instance/manager.js';
+import { InstanceManager, DEFAULT_START_TIMEOUT, DEFAULT_STOP_TIMEOUT, SHUTDOWN_MODES } from './src/instance/manager.js';
 import { ConfigManager } from './src/config/manager.js';
-import { displayInstanceTable, displayInstanceDetails, displaySystemStatus, displayConnectionInfo, formatAsJson, formatAsYaml } from './src/utils/display.js';
-import { validateInstanceConfig, isValidInstanceName } from './src/utils/validation.js';
-import { validateSystemForPgForge, checkSystemRequirements, getInstallationInstructions, getUserDirectories } from './src/utils/system.js';
+import { displayInstanceTable, displayInstanceDetails, displaySystemStatus, displayConnectionInfo, displayBackupTable, displayTemplateTable, displayDatabaseTable, displayRoleTable, displayExtensionTable, displayAvailableExtensionTable, displayAuditReport, displaySettingChanges, displayReloadReport, displayConfigDiff, formatAsJson, formatAsYaml, formatBytes } from './src/utils/display.js';
+import { isValidInstanceName, isValidDatabaseName, isValidUserName } from './src/utils/validation.js';
+import { isValidCronExpression } from './src/utils/schedule.js';
+import { WORKLOADS } from './src/utils/tuning.js';
+import { CREDENTIAL_FORMATS } from './src/credentials/manager.js';
+import { SecurityManager } from './src/security/manager.js';
+import type { AuditSeverity } from './src/security/manager.js';
+import { PRIVILEGES } from './src/utils/constants.js';
+import type { RolePrivilege } from './src/config/types.js';
+import type { CredentialFormat } from './src/credentials/manager.js';
+import * as YAML from 'yaml';
+import type { InstanceTemplate } from './src/config/types.js';
+import { validateSystemForPgForge, checkSystemRequirements, getInstallationInstructions } from './src/utils/system.js';
 
 const program = new Command();
 const instanceManager = new InstanceManager();
 const configManager = new ConfigManager();
+const securityManager = new SecurityManager();
 
 program
   .name('pgforge')
   .description('Modern PostgreSQL instance manager')
-  .version(version, '-v, --version', 'display version number');
+  .version(version, '-v, --version', 'display version number')
+  .option('--config-dir <dir>', 'PgForge configuration directory (default: $PGFORGE_HOME or ~/.pgforge)');
+
+// Managers resolve their paths lazily, so pointing PGFORGE_HOME at the
+// chosen directory before any command runs is enough
+program.hook('preAction', () => {
+  const { configDir } = program.opts();
+  if (configDir) {
+    process.env.PGFORGE_HOME = configDir;
+  }
+});
 
 // Create command
 program
   .command('create [name]')
   .description('create a new PostgreSQL instance')
-  .option('-t, --template <template>', 'use a template (development, production, testing)')
-  .option('-f, --file <file>', 'create from configuration file')
+  .option('-t, --template <template>', 'use a template (see "pgforge template list")')
+  .option('-f, --file <file>', 'create from a YAML or JSON manifest')
   .option('-p, --port <port>', 'specify port number', parseInt)
   .option('--version <version>', 'PostgreSQL version to use')
+  .option('--auto-tune [workload]', 'size performance settings for this machine (oltp, olap, dev)')
   .action(async (name, options) => {
     const spinner = ora('Checking system requirements...').start();
     
@@ -50,16 +73,13 @@ program
         process.exit(1);
       }
 
-      const config = await instanceManager.createInstance(name, options);
-      
-      // Validate configuration
-      const errors = validateInstanceConfig(config);
-      if (errors.length > 0) {
-        spinner.fail('Configuration validation failed:');
-        errors.forEach(error => console.log(chalk.red(`  ${error.field}: ${error.message}`)));
+      if (typeof options.autoTune === 'string' && !WORKLOADS.includes(options.autoTune)) {
+        spinner.fail(`Workload must be one of: ${WORKLOADS.join(', ')}`);
         process.exit(1);
       }
 
+      const config = await instanceManager.createInstance(name, options);
+
       spinner.succeed(`Instance '${config.metadata.name}' created successfully`);
       
       console.log();
@@ -69,7 +89,10 @@ program
       console.log(`  Port: ${config.spec.network.port}`);
       console.log(`  Database: ${config.spec.database.name}`);
       console.log(`  User: ${config.spec.database.owner}`);
-      console.log(`  Password: ${chalk.yellow(config.spec.database.password || 'N/A')}`);
+      console.log(`  Password: ${chalk.yellow((await instanceManager.getOwnerPassword(config)) || 'N/A')}`);
+      if (config.spec.database.passwordRef) {
+        console.log(`  Password Secret: ${config.spec.database.passwordRef}`);
+      }
       console.log(`  Data Directory: ${config.spec.storage.dataDirectory}`);
       
       console.log();
@@ -123,11 +146,17 @@ program
 program
   .command('start <name>')
   .description('start a PostgreSQL instance')
-  .action(async (name) => {
+  .option('--timeout <seconds>', `seconds to wait for the server to accept connections (default: ${DEFAULT_START_TIMEOUT})`, Number)
+  .action(async (name, options) => {
+    if (options.timeout !== undefined && !(Number.isInteger(options.timeout) && options.timeout > 0)) {
+      console.log(chalk.red('Timeout must be a positive whole number of seconds'));
+      process.exit(1);
+    }
+
     const spinner = ora(`Starting instance '${name}'...`).start();
     
     try {
-      await instanceManager.startInstanceWithService(name);
+      await instanceManager.startInstanceWithService(name, false, { timeout: options.timeout });
       spinner.succeed(`Instance '${name}' started successfully`);
       
       const config = await instanceManager.getInstanceStatus(name);
@@ -135,8 +164,9 @@ program
         console.log();
         console.log(chalk.gray('Connection information:'));
         console.log(chalk.gray(`  psql -h ${config.spec.network.bindAddress} -p ${config.spec.network.port} -U ${config.spec.database.owner} -d ${config.spec.database.name}`));
-        if (config.spec.database.password) {
-          console.log(chalk.gray(`  Password: ${config.spec.database.password}`));
+        const password = await instanceManager.getOwnerPassword(config);
+        if (password) {
+          console.log(chalk.gray(`  Password: ${password}`));
         }
       }
       
@@ -150,11 +180,27 @@ program
 program
   .command('stop <name>')
   .description('stop a PostgreSQL instance')
-  .action(async (name) => {
+  .option('--mode <mode>', 'shutdown mode: smart, fast or immediate', 'fast')
+  .option('--timeout <seconds>', `seconds to wait for the server to stop (default: ${DEFAULT_STOP_TIMEOUT})`, Number)
+  .option('--force', 'kill the server if it has not stopped within the timeout')
+  .action(async (name, options) => {
+    if (!SHUTDOWN_MODES.includes(options.mode)) {
+      console.log(chalk.red(`Shutdown mode must be one of: ${SHUTDOWN_MODES.join(', ')}`));
+      process.exit(1);
+    }
+    if (options.timeout !== undefined && !(Number.isInteger(options.timeout) && options.timeout > 0)) {
+      console.log(chalk.red('Timeout must be a positive whole number of seconds'));
+      process.exit(1);
+    }
+
     const spinner = ora(`Stopping instance '${name}'...`).start();
     
     try {
-      await instanceManager.stopInstanceWithService(name);
+      await instanceManager.stopInstanceWithService(name, false, {
+        mode: options.mode,
+        timeout: options.timeout,
+        force: options.force,
+      });
       spinner.succeed(`Instance '${name}' stopped successfully`);
       
     } catch (error) {
@@ -167,11 +213,27 @@ program
 program
   .command('restart <name>')
   .description('restart a PostgreSQL instance')
-  .action(async (name) => {
+  .option('--mode <mode>', 'shutdown mode: smart, fast or immediate', 'fast')
+  .option('--timeout <seconds>', `seconds to wait for the server to stop, and then to accept connections (default: ${DEFAULT_STOP_TIMEOUT} and ${DEFAULT_START_TIMEOUT})`, Number)
+  .option('--force', 'kill the server if it has not stopped within the timeout')
+  .action(async (name, options) => {
+    if (!SHUTDOWN_MODES.includes(options.mode)) {
+      console.log(chalk.red(`Shutdown mode must be one of: ${SHUTDOWN_MODES.join(', ')}`));
+      process.exit(1);
+    }
+    if (options.timeout !== undefined && !(Number.isInteger(options.timeout) && options.timeout > 0)) {
+      console.log(chalk.red('Timeout must be a positive whole number of seconds'));
+      process.exit(1);
+    }
+
     const spinner = ora(`Restarting instance '${name}'...`).start();
     
     try {
-      await instanceManager.restartInstance(name);
+      await instanceManager.restartInstance(name, {
+        mode: options.mode,
+        timeout: options.timeout,
+        force: options.force,
+      });
       spinner.succeed(`Instance '${name}' restarted successfully`);
       
     } catch (error) {
@@ -180,6 +242,63 @@ program
     }
   });
 
+// Reload command
+program
+  .command('reload <name>')
+  .description('reload the configuration files of a running instance')
+  .action(async (name) => {
+    const spinner = ora(`Reloading instance '${name}'...`).start();
+
+    try {
+      const report = await instanceManager.reloadInstance(name);
+      if (report.rejected.length > 0) {
+        spinner.warn(`Configuration of '${name}' reloaded with rejected settings`);
+      } else {
+        spinner.succeed(`Configuration of '${name}' reloaded`);
+      }
+      displayReloadReport(report);
+
+      if (report.pendingRestart.length > 0) {
+        console.log(chalk.gray(`Run ${chalk.white('pgforge restart ' + name)} to apply the pending settings.`));
+      }
+      if (report.rejected.length > 0) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to reload instance: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// Reconcile command
+program
+  .command('reconcile [name]')
+  .description('repair the recorded state of instances from their data directories')
+  .action(async (name) => {
+    const spinner = ora('Reconciling instance state...').start();
+
+    try {
+      const results = await instanceManager.reconcileInstances(name);
+      const repaired = results.filter(result => result.previous !== result.current);
+      spinner.succeed(`Checked ${results.length} instance(s), ${repaired.length} repaired`);
+
+      for (const result of results) {
+        const change = result.previous === result.current
+          ? chalk.gray(`${result.current} (unchanged)`)
+          : `${result.previous || 'unknown'} → ${chalk.cyan(result.current)}`;
+        console.log(`  ${result.name}: ${change}`);
+        if (result.message) {
+          console.log(chalk.yellow(`    ${result.message}`));
+        }
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to reconcile: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
 // Show/describe command
 program
   .command('show <name>')
@@ -225,145 +344,1162 @@ program
     }
   });
 
-// Status command
+// Apply command
 program
-  .command('status [name]')
-  .description('show status of instance(s)')
-  .action(async (name) => {
-    if (name) {
-      const spinner = ora(`Checking status of '${name}'...`).start();
-      
-      try {
-        const config = await instanceManager.getInstanceStatus(name);
-        
-        if (!config) {
-          spinner.fail(`Instance '${name}' not found`);
-          process.exit(1);
-        }
+  .command('apply <name>')
+  .description('apply changes from the instance manifest to its configuration files')
+  .option('-f, --file <file>', 'update the stored manifest from a YAML or JSON file first')
+  .action(async (name, options) => {
+    const spinner = ora(`Applying configuration of '${name}'...`).start();
 
-        spinner.stop();
-        displayInstanceDetails(config);
-        
-      } catch (error) {
-        spinner.fail(`Failed to get status: ${error instanceof Error ? error.message : String(error)}`);
-        process.exit(1);
+    try {
+      const { plan, outcome, objectChanges } = await instanceManager.applyInstance(name, { file: options.file });
+
+      if (outcome === 'unchanged' && objectChanges.length === 0) {
+        spinner.succeed(`Instance '${name}' is already up to date`);
+        return;
       }
-    } else {
-      displaySystemStatus();
-      
-      try {
-        const instances = await instanceManager.listInstances();
-        if (instances.length > 0) {
-          console.log(chalk.bold('Instances:'));
-          displayInstanceTable(instances);
-        }
-      } catch (error) {
-        console.log(chalk.red(`Failed to load instances: ${error instanceof Error ? error.message : String(error)}`));
+
+      const messages = {
+        written: `Configuration of '${name}' written, changes take effect on next start`,
+        reloaded: `Configuration of '${name}' applied with a reload`,
+        restarted: `Configuration of '${name}' applied with a restart`,
+        unchanged: `Databases and roles of '${name}' updated`,
+      };
+      spinner.succeed(messages[outcome]);
+
+      if (outcome !== 'unchanged') {
+        displaySettingChanges(plan);
+      }
+
+      for (const change of objectChanges) {
+        console.log(chalk.green(`  ✓ ${change}`));
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to apply configuration: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// Diff command
+program
+  .command('diff <name>')
+  .description('preview configuration changes without applying them')
+  .option('-f, --file <file>', 'compare against a YAML or JSON manifest')
+  .option('--format <format>', 'output format (text, json)', 'text')
+  .action(async (name, options) => {
+    try {
+      const { specChanges, plan } = await instanceManager.diffInstance(name, { file: options.file });
+
+      if (options.format === 'json') {
+        console.log(formatAsJson({
+          spec: specChanges,
+          settings: plan.settings,
+          hbaChanged: plan.hbaChanged,
+          restartRequired: plan.restartRequired,
+        }));
+        return;
       }
+
+      displayConfigDiff(specChanges, plan);
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to diff configuration: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
     }
   });
 
-// Connection command
+// Tune command
 program
-  .command('connection-string <name>')
-  .description('get connection string for an instance')
-  .option('--format <format>', 'output format (uri, env, json)', 'uri')
+  .command('tune <name>')
+  .description('size performance settings for the CPU, memory and disk of this machine')
+  .option('-w, --workload <workload>', 'workload to tune for (oltp, olap, dev)')
+  .option('-m, --memory <size>', 'memory to plan for instead of the total RAM (e.g. 4GB)')
+  .option('--dry-run', 'show the recommended settings without saving them')
   .action(async (name, options) => {
     try {
-      const config = await instanceManager.getInstanceStatus(name);
-      
-      if (!config) {
-        console.log(chalk.red(`Instance '${name}' not found`));
+      if (options.workload && !WORKLOADS.includes(options.workload)) {
+        console.log(chalk.red(`Workload must be one of: ${WORKLOADS.join(', ')}`));
         process.exit(1);
       }
 
-      if (options.format === 'uri') {
-        const host = config.spec.network.bindAddress === '0.0.0.0' ? 'localhost' : config.spec.network.bindAddress;
-        const userPassword = config.spec.database.password ? 
-          `${config.spec.database.owner}:${config.spec.database.password}` : 
-          config.spec.database.owner;
-        const uri = `postgresql://${userPassword}@${host}:${config.spec.network.port}/${config.spec.database.name}`;
-        console.log(uri);
-      } else if (options.format === 'env') {
-        const host = config.spec.network.bindAddress === '0.0.0.0' ? 'localhost' : config.spec.network.bindAddress;
-        console.log(`PGHOST=${host}`);
-        console.log(`PGPORT=${config.spec.network.port}`);
-        console.log(`PGDATABASE=${config.spec.database.name}`);
-        console.log(`PGUSER=${config.spec.database.owner}`);
-        if (config.spec.database.password) {
-          console.log(`PGPASSWORD=${config.spec.database.password}`);
-        }
-      } else if (options.format === 'json') {
-        const host = config.spec.network.bindAddress === '0.0.0.0' ? 'localhost' : config.spec.network.bindAddress;
-        const userPassword = config.spec.database.password ? 
-          `${config.spec.database.owner}:${config.spec.database.password}` : 
-          config.spec.database.owner;
-        const connectionInfo = {
-          host,
-          port: config.spec.network.port,
-          database: config.spec.database.name,
-          user: config.spec.database.owner,
-          password: config.spec.database.password,
-          uri: `postgresql://${userPassword}@${host}:${config.spec.network.port}/${config.spec.database.name}`
-        };
-        console.log(formatAsJson(connectionInfo));
+      const result = await instanceManager.tuneInstance(name, {
+        workload: options.workload,
+        memory: options.memory,
+        dryRun: options.dryRun,
+      });
+
+      console.log();
+      console.log(chalk.bold('Hardware:'));
+      console.log(`  Memory: ${formatBytes(result.hardware.memoryBytes)}${result.instanceCount > 1 ? chalk.gray(` (shared by ${result.instanceCount} instances)`) : ''}`);
+      console.log(`  CPUs: ${result.hardware.cpuCount}`);
+      console.log(`  Disk: ${result.hardware.diskType}`);
+      console.log(`  Workload: ${result.workload}`);
+      console.log();
+
+      if (result.changes.length === 0) {
+        console.log(chalk.green(`✓ '${name}' is already tuned for this machine`));
+        return;
+      }
+
+      console.log(chalk.bold('spec.performance:'));
+      for (const change of result.changes) {
+        const before = change.before === undefined ? chalk.gray('(unset)') : String(change.before);
+        console.log(`  ${change.path.padEnd(28)} ${before} → ${chalk.cyan(String(change.after))}`);
+      }
+      console.log();
+
+      if (options.dryRun) {
+        console.log(chalk.gray('Dry run: nothing was saved.'));
       } else {
-        displayConnectionInfo(config);
+        console.log(chalk.green(`✓ Saved to the '${name}' spec`));
+        console.log(chalk.gray(`Run ${chalk.white('pgforge apply ' + name)} to write the configuration (shared_buffers needs a restart).`));
       }
-      
+
     } catch (error) {
-      console.log(chalk.red(`Failed to get connection info: ${error instanceof Error ? error.message : String(error)}`));
+      console.log(chalk.red(`Failed to tune instance: ${error instanceof Error ? error.message : String(error)}`));
       process.exit(1);
     }
   });
 
-// Init command
-program
-  .command('init')
-  .description('initialize PgForge configuration')
-  .action(async () => {
-    const spinner = ora('Initializing PgForge...').start();
-    
+// Backup commands
+const backup = program
+  .command('backup')
+  .description('manage instance backups');
+
+backup
+  .command('create <name>')
+  .description('create a backup of a running instance')
+  .option('--type <type>', 'backup type (logical, physical)')
+  .action(async (name, options) => {
+    const spinner = ora(`Creating backup of '${name}'...`).start();
+
     try {
-      await configManager.ensureConfigDirectory();
-      
-      // Create default global config if it doesn't exist
-      try {
-        await configManager.getGlobalConfig();
-      } catch {
-        const userDirs = getUserDirectories();
-        const defaultConfig = {
-          apiVersion: 'v1',
-          kind: 'Configuration',
-          global: {
-            dataRoot: userDirs.dataRoot,
-            logRoot: userDirs.logRoot, 
-            backupRoot: userDirs.backupRoot,
-            postgresql: {
-              packageManager: 'apt' as const,
-              versions: ['17.0', '16.7', '15.10'],
-              defaultVersion: '17.0',
-            },
-          },
-        };
-        await configManager.saveGlobalConfig(defaultConfig);
+      if (options.type && !['logical', 'physical'].includes(options.type)) {
+        spinner.fail('Backup type must be one of: logical, physical');
+        process.exit(1);
       }
 
-      spinner.succeed('PgForge initialized successfully');
-      
+      const entry = await instanceManager.createBackup(name, { type: options.type });
+      spinner.succeed(`Backup '${entry.id}' created successfully`);
+
       console.log();
-      console.log(chalk.bold('Configuration directory created:'));
-      console.log(chalk.gray('  ~/.pgforge/'));
-      console.log(chalk.gray('  ~/.pgforge/config.yaml'));
-      console.log(chalk.gray('  ~/.pgforge/instances/'));
-      
+      console.log(chalk.bold('Backup Details:'));
+      console.log(`  ID: ${chalk.cyan(entry.id)}`);
+      console.log(`  Type: ${entry.type}`);
+      console.log(`  Format: ${entry.format}${entry.compression ? ' (compressed)' : ''}`);
+      console.log(`  Size: ${formatBytes(entry.size)}`);
+      console.log(`  Checksum: ${chalk.gray(entry.checksum)}`);
+      console.log(`  PostgreSQL: ${entry.postgresqlVersion}`);
+      console.log(`  Location: ${entry.path}`);
+
+    } catch (error) {
+      spinner.fail(`Failed to create backup: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('restore <name> <backup-id>')
+  .description('restore a catalogued backup in place or into a new instance')
+  .option('--as <new-name>', 'restore into a newly created instance instead of in place')
+  .action(async (name, backupId, options) => {
+    const target = options.as || name;
+    const spinner = ora(`Restoring backup '${backupId}' into '${target}'...`).start();
+
+    try {
+      if (options.as && !isValidInstanceName(options.as)) {
+        spinner.fail('Invalid instance name. Use lowercase letters, numbers, and hyphens only.');
+        process.exit(1);
+      }
+
+      const config = await instanceManager.restoreBackup(name, backupId, { as: options.as });
+      spinner.succeed(`Backup '${backupId}' restored into '${config.metadata.name}'`);
+
       console.log();
-      console.log(chalk.bold('Next steps:'));
-      console.log(chalk.gray(`  Create an instance: ${chalk.white('pgforge create mydb')}`));
-      console.log(chalk.gray(`  List instances: ${chalk.white('pgforge list')}`));
-      
+      console.log(chalk.bold('Instance Details:'));
+      console.log(`  Name: ${chalk.cyan(config.metadata.name)}`);
+      console.log(`  State: ${config.status?.state || 'unknown'}`);
+      console.log(`  Port: ${config.spec.network.port}`);
+      console.log(`  Database: ${config.spec.database.name}`);
+      console.log(`  User: ${config.spec.database.owner}`);
+
     } catch (error) {
-      spinner.fail(`Failed to initialize: ${error instanceof Error ? error.message : String(error)}`);
+      spinner.fail(`Failed to restore backup: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('schedule <name> [cron]')
+  .description('run scheduled backups with a systemd timer')
+  .option('--disable', 'remove the backup timer')
+  .option('--user', 'use user systemd units instead of system units')
+  .action(async (name, cron, options) => {
+    const spinner = ora(`Configuring backup schedule for '${name}'...`).start();
+
+    try {
+      if (cron && !isValidCronExpression(cron)) {
+        spinner.fail(`Invalid cron expression '${cron}'. Use five fields like "0 2 * * *"`);
+        process.exit(1);
+      }
+
+      const onCalendar = await instanceManager.scheduleBackups(name, {
+        schedule: cron,
+        disable: options.disable,
+        useUserService: options.user,
+      });
+
+      if (onCalendar) {
+        spinner.succeed(`Scheduled backups enabled for '${name}'`);
+        console.log(chalk.gray(`  Timer: pgforge-${name}-backup.timer (OnCalendar=${onCalendar})`));
+      } else {
+        spinner.succeed(`Scheduled backups disabled for '${name}'`);
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to configure backup schedule: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('prune <name>')
+  .description('delete backups older than the retention window')
+  .option('--dry-run', 'only list the backups that would be deleted')
+  .action(async (name, options) => {
+    const spinner = ora(`Pruning backups of '${name}'...`).start();
+
+    try {
+      const expired = await instanceManager.pruneBackups(name, { dryRun: options.dryRun });
+
+      if (expired.length === 0) {
+        spinner.succeed('No backups are older than the retention window');
+      } else if (options.dryRun) {
+        spinner.info(`${expired.length} backup(s) would be deleted:`);
+        expired.forEach(entry => console.log(chalk.gray(`  ${entry.id} (${entry.createdAt})`)));
+      } else {
+        spinner.succeed(`Deleted ${expired.length} expired backup(s)`);
+        expired.forEach(entry => console.log(chalk.gray(`  ${entry.id}`)));
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to prune backups: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+backup
+  .command('list <name>')
+  .alias('ls')
+  .description('list catalogued backups of an instance')
+  .option('--format <format>', 'output format (table, json, yaml)', 'table')
+  .action(async (name, options) => {
+    try {
+      const backups = await instanceManager.listBackups(name);
+
+      if (options.format === 'json') {
+        console.log(formatAsJson(backups));
+      } else if (options.format === 'yaml') {
+        console.log(formatAsYaml(backups));
+      } else {
+        displayBackupTable(backups);
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to list backups: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// TLS commands
+const tls = program
+  .command('tls')
+  .description('manage TLS certificates issued by the PgForge CA');
+
+tls
+  .command('rotate <name>')
+  .description('issue a new server certificate and reload the instance')
+  .action(async (name) => {
+    const spinner = ora(`Rotating TLS certificate for '${name}'...`).start();
+
+    try {
+      const { files, expires, reloaded } = await instanceManager.rotateTlsCertificate(name);
+      spinner.succeed(`TLS certificate for '${name}' rotated${reloaded ? ' and instance reloaded' : ''}`);
+
+      console.log();
+      console.log(`  Certificate: ${files.certificatePath}`);
+      console.log(`  Key: ${files.keyPath}`);
+      console.log(`  Expires: ${expires.toLocaleString()}`);
+
+    } catch (error) {
+      spinner.fail(`Failed to rotate certificate: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+tls
+  .command('client-cert <name> <user>')
+  .description('issue a client certificate for cert authentication as <user>')
+  .option('-o, --out <dir>', 'directory to write the certificate and key to')
+  .option('--days <days>', 'validity in days', parseInt)
+  .action(async (name, user, options) => {
+    const spinner = ora(`Issuing client certificate for '${user}'...`).start();
+
+    try {
+      const files = await instanceManager.issueClientCertificate(name, user, {
+        outputDirectory: options.out,
+        days: options.days,
+      });
+      spinner.succeed(`Client certificate for '${user}' issued`);
+
+      const config = await configManager.getInstanceConfig(name);
+      console.log();
+      console.log(`  Certificate: ${files.certificatePath}`);
+      console.log(`  Key: ${files.keyPath}`);
+      console.log(`  CA: ${files.caPath}`);
+      console.log();
+      console.log(chalk.bold('Connect with:'));
+      console.log(chalk.cyan(`  psql "host=localhost port=${config?.spec.network.port} dbname=${config?.spec.database.name} user=${user} sslmode=verify-full sslrootcert=${files.caPath} sslcert=${files.certificatePath} sslkey=${files.keyPath}"`));
+
+    } catch (error) {
+      spinner.fail(`Failed to issue client certificate: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// Secret commands
+const secrets = program
+  .command('secrets')
+  .description('manage instance credentials in the secret store');
+
+secrets
+  .command('migrate [name]')
+  .description('move plaintext passwords from instance files into the secret store')
+  .action(async (name) => {
+    try {
+      const names = name ? [name] : await configManager.listInstances();
+      let migrated = 0;
+
+      for (const instanceName of names) {
+        const ref = await instanceManager.migrateSecrets(instanceName);
+        if (ref) {
+          console.log(chalk.green(`✓ ${instanceName}: password moved to ${ref}`));
+          migrated++;
+        }
+      }
+
+      if (migrated === 0) {
+        console.log(chalk.gray('No plaintext passwords found.'));
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to migrate secrets: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Database commands
+const db = program
+  .command('db')
+  .description('manage databases inside an instance');
+
+db
+  .command('list <instance>')
+  .alias('ls')
+  .description('list databases')
+  .action(async (instance) => {
+    try {
+      displayDatabaseTable(await instanceManager.listDatabases(instance));
+    } catch (error) {
+      console.log(chalk.red(`Failed to list databases: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+db
+  .command('create <instance> <database>')
+  .description('create a database')
+  .option('--owner <role>', 'owning role (default: the instance owner)')
+  .option('--encoding <encoding>', 'character encoding')
+  .option('--locale <locale>', 'locale')
+  .action(async (instance, database, options) => {
+    if (!isValidDatabaseName(database)) {
+      console.log(chalk.red('Database name must contain only letters, numbers, and underscores'));
+      process.exit(1);
+    }
+
+    try {
+      await instanceManager.createDatabase(instance, {
+        name: database,
+        owner: options.owner,
+        encoding: options.encoding,
+        locale: options.locale,
+      });
+      console.log(chalk.green(`✓ Database '${database}' created`));
+    } catch (error) {
+      console.log(chalk.red(`Failed to create database: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+db
+  .command('drop <instance> <database>')
+  .description('drop a database')
+  .option('--force', 'disconnect open sessions first')
+  .action(async (instance, database, options) => {
+    try {
+      await instanceManager.dropDatabase(instance, database, { force: options.force });
+      console.log(chalk.green(`✓ Database '${database}' dropped`));
+    } catch (error) {
+      console.log(chalk.red(`Failed to drop database: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Role commands
+const role = program
+  .command('role')
+  .description('manage roles inside an instance');
+
+role
+  .command('list <instance>')
+  .alias('ls')
+  .description('list roles')
+  .action(async (instance) => {
+    try {
+      displayRoleTable(await instanceManager.listRoles(instance));
+    } catch (error) {
+      console.log(chalk.red(`Failed to list roles: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+role
+  .command('create <instance> <role>')
+  .description('create a role; login roles get a generated password in the secret store')
+  .option('--login', 'allow the role to log in')
+  .option('--createdb', 'allow the role to create databases')
+  .option('--createrole', 'allow the role to create roles')
+  .option('--connection-limit <n>', 'maximum concurrent connections', parseInt)
+  .option('--in-role <roles>', 'comma-separated roles to become a member of')
+  .action(async (instance, roleName, options) => {
+    if (!isValidUserName(roleName)) {
+      console.log(chalk.red('User name must contain only letters, numbers, and underscores'));
+      process.exit(1);
+    }
+
+    try {
+      const ref = await instanceManager.createRole(instance, {
+        name: roleName,
+        login: options.login,
+        createdb: options.createdb,
+        createrole: options.createrole,
+        connectionLimit: options.connectionLimit,
+        memberOf: options.inRole?.split(',').map((r: string) => r.trim()).filter(Boolean),
+      });
+
+      console.log(chalk.green(`✓ Role '${roleName}' created`));
+      if (ref) {
+        console.log(`  Password: ${ref}`);
+        console.log(chalk.gray(`  Export it with: pgforge credentials export ${instance} --user ${roleName}`));
+      }
+    } catch (error) {
+      console.log(chalk.red(`Failed to create role: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+role
+  .command('drop <instance> <role>')
+  .description('drop a role and its generated password')
+  .action(async (instance, roleName) => {
+    try {
+      await instanceManager.dropRole(instance, roleName);
+      console.log(chalk.green(`✓ Role '${roleName}' dropped`));
+    } catch (error) {
+      console.log(chalk.red(`Failed to drop role: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+role
+  .command('grant <instance> <role>')
+  .description('grant privileges or membership of another role')
+  .option('--in-role <group>', 'make the role a member of <group>')
+  .option('-p, --privileges <list>', 'comma-separated privileges (e.g. select,insert)')
+  .option('--on <kind>', `object kind (${Object.keys(PRIVILEGES).join(', ')})`, 'database')
+  .option('-d, --db <database>', 'database the privileges apply in')
+  .option('--schema <schema>', 'schema for schema, tables, sequences and functions', 'public')
+  .action(async (instance, roleName, options) => {
+    try {
+      if (!options.inRole && !options.privileges) {
+        console.log(chalk.red('Pass --privileges or --in-role'));
+        process.exit(1);
+      }
+
+      let privilege: RolePrivilege | undefined;
+      if (options.privileges) {
+        const allowed = PRIVILEGES[options.on as RolePrivilege['on']];
+        if (!allowed) {
+          console.log(chalk.red(`--on must be one of: ${Object.keys(PRIVILEGES).join(', ')}`));
+          process.exit(1);
+        }
+        if (!options.db) {
+          console.log(chalk.red('--db is required with --privileges'));
+          process.exit(1);
+        }
+
+        const privileges = options.privileges.split(',').map((p: string) => p.trim().toUpperCase()).filter(Boolean);
+        const invalid = privileges.filter((p: string) => !allowed.includes(p));
+        if (invalid.length > 0) {
+          console.log(chalk.red(`Invalid privileges on ${options.on}: ${invalid.join(', ')}. Use: ${allowed.join(', ')}`));
+          process.exit(1);
+        }
+
+        privilege = { database: options.db, on: options.on, schema: options.schema, privileges };
+      }
+
+      await instanceManager.grantRole(instance, roleName, { memberOf: options.inRole, privilege });
+      console.log(chalk.green(`✓ Granted to '${roleName}'`));
+    } catch (error) {
+      console.log(chalk.red(`Failed to grant: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Extension commands
+const extension = program
+  .command('extension')
+  .description('manage PostgreSQL extensions inside an instance');
+
+extension
+  .command('list <instance>')
+  .alias('ls')
+  .description('list installed extensions')
+  .option('-d, --db <database>', 'database to inspect (default: the instance database)')
+  .action(async (instance, options) => {
+    try {
+      displayExtensionTable(await instanceManager.listExtensions(instance, { database: options.db }));
+    } catch (error) {
+      console.log(chalk.red(`Failed to list extensions: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+extension
+  .command('available <instance>')
+  .description('list extensions the server has packages for')
+  .option('-d, --db <database>', 'database to report installed versions for')
+  .action(async (instance, options) => {
+    try {
+      displayAvailableExtensionTable(await instanceManager.listAvailableExtensions(instance, { database: options.db }));
+    } catch (error) {
+      console.log(chalk.red(`Failed to list available extensions: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+extension
+  .command('enable <instance> <extension>')
+  .description('add an extension to the spec and create it')
+  .option('-d, --db <database>', 'database to create it in (default: the instance database)')
+  .option('--schema <schema>', 'schema to install into')
+  .option('--ext-version <version>', 'extension version (default: the package default)')
+  .action(async (instance, extensionName, options) => {
+    try {
+      const { change, restartRequired } = await instanceManager.enableExtension(instance, {
+        name: extensionName,
+        database: options.db,
+        schema: options.schema,
+        version: options.extVersion,
+      });
+
+      if (restartRequired) {
+        console.log(chalk.yellow(`⚠ '${extensionName}' must be preloaded, which takes a restart.`));
+        console.log(chalk.gray(`Run: pgforge restart ${instance} && pgforge apply ${instance}`));
+        return;
+      }
+
+      console.log(chalk.green(`✓ ${change || `Extension '${extensionName}' is already enabled`}`));
+    } catch (error) {
+      console.log(chalk.red(`Failed to enable extension: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+extension
+  .command('disable <instance> <extension>')
+  .description('drop an extension and remove it from the spec')
+  .option('-d, --db <database>', 'database to drop it from (default: the instance database)')
+  .option('--cascade', 'also drop objects that depend on the extension')
+  .action(async (instance, extensionName, options) => {
+    try {
+      const { restartRequired } = await instanceManager.disableExtension(instance, extensionName, {
+        database: options.db,
+        cascade: options.cascade,
+      });
+
+      console.log(chalk.green(`✓ Extension '${extensionName}' disabled`));
+      if (restartRequired) {
+        console.log(chalk.yellow(`⚠ Its library stays loaded until the next restart: pgforge restart ${instance}`));
+      }
+    } catch (error) {
+      console.log(chalk.red(`Failed to disable extension: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Credential commands
+const credentials = program
+  .command('credentials')
+  .description('rotate and export database role passwords');
+
+credentials
+  .command('rotate <name>')
+  .description('generate a new password for a role and apply it')
+  .option('-u, --user <role>', 'role to rotate (default: database owner; postgres for the superuser)')
+  .option('--grace <duration>', 'keep the old password valid for a period (e.g. 12h, 7d) via <role>_previous')
+  .action(async (name, options) => {
+    const spinner = ora(`Rotating credentials for '${name}'...`).start();
+
+    try {
+      const result = await instanceManager.rotateCredentials(name, { user: options.user, grace: options.grace });
+      spinner.succeed(`Password for '${result.user}' rotated`);
+
+      console.log();
+      console.log(`  Secret: ${result.ref}`);
+      if (result.graceRole && result.graceExpires) {
+        console.log(`  Old password valid as '${result.graceRole}' until ${result.graceExpires.toLocaleString()}`);
+      }
+      for (const path of result.refreshed) {
+        console.log(`  Updated: ${path}`);
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to rotate credentials: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+credentials
+  .command('export <name>')
+  .description('write connection credentials to a .pgpass, pg_service.conf or .env file')
+  .option('-f, --format <format>', `output format (${CREDENTIAL_FORMATS.join(', ')})`, 'pgpass')
+  .option('-u, --user <role>', 'role to export (default: database owner)')
+  .option('-o, --output <path>', 'file to update (default: ~/.pgpass, ~/.pg_service.conf or ./.env)')
+  .action(async (name, options) => {
+    try {
+      if (!CREDENTIAL_FORMATS.includes(options.format)) {
+        console.log(chalk.red(`Invalid format '${options.format}'. Use one of: ${CREDENTIAL_FORMATS.join(', ')}`));
+        process.exit(1);
+      }
+
+      const path = await instanceManager.exportCredentials(name, options.format as CredentialFormat, {
+        user: options.user,
+        path: options.output,
+      });
+      console.log(chalk.green(`✓ Credentials written to ${path}`));
+      console.log(chalk.gray('The file is updated automatically when the password is rotated.'));
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to export credentials: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Authentication commands
+const auth = program
+  .command('auth')
+  .description('manage client authentication');
+
+auth
+  .command('migrate-scram <name>')
+  .description('switch an instance from md5 to scram-sha-256 and re-hash known passwords')
+  .option('--force', 'switch even when some roles keep md5 passwords and can no longer log in')
+  .action(async (name, options) => {
+    const spinner = ora(`Migrating '${name}' to scram-sha-256...`).start();
+
+    try {
+      const { migrated, remaining, switched } = await instanceManager.migrateToScram(name, options.force);
+      if (switched) {
+        spinner.succeed(`Instance '${name}' now uses scram-sha-256`);
+      } else {
+        spinner.warn(`Instance '${name}' still uses md5: some roles have passwords PgForge does not know`);
+      }
+
+      for (const role of migrated) {
+        console.log(chalk.green(`  ✓ ${role}: password re-hashed`));
+      }
+      if (remaining.length > 0) {
+        console.log();
+        console.log(switched
+          ? chalk.yellow('These roles still have md5 passwords and cannot log in until their password is reset:')
+          : chalk.yellow('These roles still have md5 passwords:'));
+        for (const role of remaining) {
+          console.log(chalk.yellow(`  - ${role}`));
+        }
+        console.log(chalk.gray(`Reset one with: pgforge credentials rotate ${name} --user <role>`));
+        if (!switched) {
+          console.log(chalk.gray(`Then run the migration again, or pass --force to switch anyway`));
+        }
+      }
+
+    } catch (error) {
+      spinner.fail(`Failed to migrate to scram-sha-256: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// pg_hba commands
+const hba = program
+  .command('hba')
+  .description('inspect client authentication rules');
+
+hba
+  .command('test <name>')
+  .description('show which pg_hba rule a connection would match')
+  .requiredOption('-u, --user <role>', 'role connecting')
+  .requiredOption('-d, --db <database>', 'database connecting to (replication for replication connections)')
+  .option('-a, --addr <ip>', 'client address (default: Unix socket)')
+  .option('--ssl', 'the client connects with SSL')
+  .option('--no-ssl', 'the client connects without SSL')
+  .action(async (name, options) => {
+    try {
+      const match = await instanceManager.testHbaRule(name, {
+        user: options.user,
+        database: options.db,
+        address: options.addr,
+        ssl: options.ssl,
+      });
+
+      if (!match) {
+        console.log(chalk.red('No rule matches: the connection would be rejected'));
+        process.exit(1);
+      }
+
+      console.log(`Rule ${match.lineNumber}: ${chalk.cyan(match.line)}`);
+      if (match.method === 'reject') {
+        console.log(chalk.red('The connection would be rejected'));
+      } else {
+        console.log(chalk.green(`The connection would authenticate with ${match.method}`));
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to test pg_hba rules: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Security commands
+const security = program
+  .command('security')
+  .description('check instances for insecure settings');
+
+security
+  .command('audit [name]')
+  .description('flag open pg_hba entries, trust auth, missing SSL, plaintext passwords and loose permissions')
+  .option('--format <format>', 'output format (text, json)', 'text')
+  .option('--fail-on <severity>', 'exit non-zero for findings of this severity or higher (low, medium, high)', 'low')
+  .action(async (name, options) => {
+    try {
+      const severities: AuditSeverity[] = ['low', 'medium', 'high'];
+      if (!severities.includes(options.failOn)) {
+        console.log(chalk.red(`--fail-on must be one of: ${severities.join(', ')}`));
+        process.exit(2);
+      }
+
+      const report = await securityManager.audit(name);
+
+      if (options.format === 'json') {
+        console.log(formatAsJson(report));
+      } else {
+        displayAuditReport(report);
+      }
+
+      const threshold = severities.indexOf(options.failOn);
+      if (report.findings.some(finding => severities.indexOf(finding.severity) >= threshold)) {
+        process.exit(1);
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to audit security: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(2);
+    }
+  });
+
+// Template commands
+const template = program
+  .command('template')
+  .description('manage instance templates');
+
+template
+  .command('list')
+  .alias('ls')
+  .description('list built-in and user-defined templates')
+  .option('--format <format>', 'output format (table, json, yaml)', 'table')
+  .action(async (options) => {
+    try {
+      const templates = await configManager.listTemplates();
+
+      if (options.format === 'json') {
+        console.log(formatAsJson(templates));
+      } else if (options.format === 'yaml') {
+        console.log(formatAsYaml(templates));
+      } else {
+        displayTemplateTable(templates);
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to list templates: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+template
+  .command('show <name>')
+  .description('show a template with inherited settings resolved')
+  .option('--format <format>', 'output format (yaml, json)', 'yaml')
+  .action(async (name, options) => {
+    try {
+      const resolved = await configManager.getTemplate(name);
+
+      if (!resolved) {
+        console.log(chalk.red(`Template '${name}' not found`));
+        process.exit(1);
+      }
+
+      console.log(options.format === 'json' ? formatAsJson(resolved) : formatAsYaml(resolved));
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to show template: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+template
+  .command('create <name>')
+  .description('save a template to ~/.pgforge/templates')
+  .option('--from-instance <instance>', 'copy settings from an existing instance')
+  .option('-f, --file <file>', 'read the template spec from a YAML or JSON file')
+  .option('--extends <template>', 'inherit settings from another template')
+  .option('-d, --description <description>', 'describe what the template is for')
+  .action(async (name, options) => {
+    try {
+      if (!isValidInstanceName(name)) {
+        console.log(chalk.red('Invalid template name. Use lowercase letters, numbers, and hyphens only.'));
+        process.exit(1);
+      }
+
+      if (options.fromInstance && options.file) {
+        console.log(chalk.red('Use either --from-instance or --file, not both'));
+        process.exit(1);
+      }
+
+      const definition: InstanceTemplate = {
+        name,
+        description: options.description,
+        extends: options.extends,
+        spec: {},
+      };
+
+      if (options.fromInstance) {
+        const config = await configManager.getInstanceConfig(options.fromInstance);
+        if (!config) {
+          console.log(chalk.red(`Instance '${options.fromInstance}' not found`));
+          process.exit(1);
+        }
+
+        // Instance-specific settings would clash with the instance the template came from
+        const { storage, database, ...spec } = structuredClone(config.spec);
+        const { port, ...network } = spec.network;
+        // Templates are deep-merged over defaults, so a partial network section is fine
+        definition.spec = { ...spec, network } as InstanceTemplate['spec'];
+      } else if (options.file) {
+        const parsed = YAML.parse(await readFile(options.file, 'utf-8'));
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          console.log(chalk.red(`Template file '${options.file}' must contain an object`));
+          process.exit(1);
+        }
+        definition.description ??= parsed.description;
+        definition.extends ??= parsed.extends;
+        definition.spec = parsed.spec || {};
+      }
+
+      await configManager.saveTemplate(definition);
+
+      // Resolve once so a bad parent or inheritance cycle is reported straight away
+      try {
+        await configManager.getTemplate(name);
+      } catch (error) {
+        await configManager.deleteTemplate(name);
+        throw error;
+      }
+
+      console.log(chalk.green(`✓ Template '${name}' saved`));
+      console.log(chalk.gray(`Use it with: pgforge create <name> --template ${name}`));
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to create template: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+template
+  .command('remove <name>')
+  .alias('rm')
+  .description('remove a user-defined template')
+  .action(async (name) => {
+    try {
+      const templates = await configManager.listTemplates();
+      const existing = templates.find(t => t.name === name);
+
+      if (!existing) {
+        console.log(chalk.red(`Template '${name}' not found`));
+        process.exit(1);
+      }
+
+      if (existing.source !== 'file') {
+        const location = existing.source === 'config' ? 'config.yaml' : 'PgForge';
+        console.log(chalk.red(`Template '${name}' is defined in ${location} and cannot be removed with this command`));
+        process.exit(1);
+      }
+
+      const dependents = templates.filter(t => t.extends === name).map(t => t.name);
+      if (dependents.length > 0) {
+        console.log(chalk.red(`Template '${name}' is extended by: ${dependents.join(', ')}`));
+        process.exit(1);
+      }
+
+      if (!await configManager.deleteTemplate(name)) {
+        console.log(chalk.red(`Failed to remove template: could not delete ${name}.yaml from the templates directory`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`✓ Template '${name}' removed`));
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to remove template: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Point-in-time recovery command
+program
+  .command('restore <name>')
+  .description('restore an instance to a point in time from a base backup and archived WAL')
+  .requiredOption('--target-time <timestamp>', 'recovery target, e.g. "2025-06-23 14:30:00+00"')
+  .option('--backup <backup-id>', 'physical base backup to start from (default: latest before target)')
+  .option('--timeout <seconds>', 'maximum time to wait for WAL replay', Number)
+  .action(async (name, options) => {
+    if (options.timeout !== undefined && !(Number.isInteger(options.timeout) && options.timeout > 0)) {
+      console.log(chalk.red('Timeout must be a positive whole number of seconds'));
+      process.exit(1);
+    }
+
+    const spinner = ora(`Recovering '${name}' to ${options.targetTime}...`).start();
+
+    try {
+      const { config, backup: base } = await instanceManager.restoreToPointInTime(name, {
+        targetTime: options.targetTime,
+        backupId: options.backup,
+        timeout: options.timeout,
+      });
+      spinner.succeed(`Instance '${name}' recovered to ${options.targetTime}`);
+
+      console.log();
+      console.log(chalk.bold('Recovery Details:'));
+      console.log(`  Base Backup: ${chalk.cyan(base.id)} (${base.createdAt})`);
+      console.log(`  WAL Archive: ${config.spec.storage.archiveDirectory}`);
+      console.log(`  State: ${config.status?.state || 'unknown'}`);
+
+    } catch (error) {
+      spinner.fail(`Failed to recover instance: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// Status command
+program
+  .command('status [name]')
+  .description('show status of instance(s)')
+  .action(async (name) => {
+    if (name) {
+      const spinner = ora(`Checking status of '${name}'...`).start();
+      
+      try {
+        const config = await instanceManager.getInstanceStatus(name);
+        
+        if (!config) {
+          spinner.fail(`Instance '${name}' not found`);
+          process.exit(1);
+        }
+
+        spinner.stop();
+        displayInstanceDetails(config);
+        
+      } catch (error) {
+        spinner.fail(`Failed to get status: ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    } else {
+      displaySystemStatus();
+      
+      try {
+        const instances = await instanceManager.listInstances();
+        if (instances.length > 0) {
+          console.log(chalk.bold('Instances:'));
+          displayInstanceTable(instances);
+        }
+      } catch (error) {
+        console.log(chalk.red(`Failed to load instances: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }
+  });
+
+// Connection command
+program
+  .command('connection-string <name>')
+  .description('get connection string for an instance')
+  .option('--format <format>', 'output format (uri, env, json)', 'uri')
+  .action(async (name, options) => {
+    try {
+      const config = await instanceManager.getInstanceStatus(name);
+      
+      if (!config) {
+        console.log(chalk.red(`Instance '${name}' not found`));
+        process.exit(1);
+      }
+
+      const password = await instanceManager.getOwnerPassword(config);
+
+      if (options.format === 'uri') {
+        const host = config.spec.network.bindAddress === '0.0.0.0' ? 'localhost' : config.spec.network.bindAddress;
+        const userPassword = password ? 
+          `${config.spec.database.owner}:${password}` : 
+          config.spec.database.owner;
+        const uri = `postgresql://${userPassword}@${host}:${config.spec.network.port}/${config.spec.database.name}`;
+        console.log(uri);
+      } else if (options.format === 'env') {
+        const host = config.spec.network.bindAddress === '0.0.0.0' ? 'localhost' : config.spec.network.bindAddress;
+        console.log(`PGHOST=${host}`);
+        console.log(`PGPORT=${config.spec.network.port}`);
+        console.log(`PGDATABASE=${config.spec.database.name}`);
+        console.log(`PGUSER=${config.spec.database.owner}`);
+        if (password) {
+          console.log(`PGPASSWORD=${password}`);
+        }
+      } else if (options.format === 'json') {
+        const host = config.spec.network.bindAddress === '0.0.0.0' ? 'localhost' : config.spec.network.bindAddress;
+        const userPassword = password ? 
+          `${config.spec.database.owner}:${password}` : 
+          config.spec.database.owner;
+        const connectionInfo = {
+          host,
+          port: config.spec.network.port,
+          database: config.spec.database.name,
+          user: config.spec.database.owner,
+          password,
+          uri: `postgresql://${userPassword}@${host}:${config.spec.network.port}/${config.spec.database.name}`
+        };
+        console.log(formatAsJson(connectionInfo));
+      } else {
+        displayConnectionInfo(config);
+      }
+      
+    } catch (error) {
+      console.log(chalk.red(`Failed to get connection info: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+// Init command
+program
+  .command('init')
+  .description('initialize PgForge configuration')
+  .action(async () => {
+    const spinner = ora('Initializing PgForge...').start();
+    
+    try {
+      await configManager.ensureConfigDirectory();
+      
+      // Create default global config if it doesn't exist
+      await configManager.initializeGlobalConfig();
+
+      spinner.succeed('PgForge initialized successfully');
+      
+      console.log();
+      const configDir = configManager.getConfigDirectory();
+      console.log(chalk.bold('Configuration directory created:'));
+      console.log(chalk.gray(`  ${configDir}/`));
+      console.log(chalk.gray(`  ${configDir}/config.yaml`));
+      console.log(chalk.gray(`  ${configDir}/instances/`));
+      
+      console.log();
+      console.log(chalk.bold('Next steps:'));
+      console.log(chalk.gray(`  Create an instance: ${chalk.white('pgforge create mydb')}`));
+      console.log(chalk.gray(`  List instances: ${chalk.white('pgforge list')}`));
+      
+    } catch (error) {
+      spinner.fail(`Failed to initialize: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+// Global configuration commands
+const configCommand = program
+  .command('config')
+  .description('view and edit global settings in config.yaml');
+
+configCommand
+  .command('list')
+  .alias('ls')
+  .description('list global settings')
+  .option('--format <format>', 'output format (text, json, yaml)', 'text')
+  .action(async (options) => {
+    try {
+      const settings = await configManager.listGlobalSettings();
+
+      if (options.format === 'json') {
+        console.log(formatAsJson(settings));
+      } else if (options.format === 'yaml') {
+        console.log(formatAsYaml(settings));
+      } else {
+        console.log(chalk.gray(`# ${configManager.getConfigDirectory()}/config.yaml`));
+        for (const [key, value] of Object.entries(settings)) {
+          console.log(`${chalk.cyan(key)} = ${value}`);
+        }
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`Failed to list settings: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('get <key>')
+  .description('print the value of a global setting')
+  .action(async (key) => {
+    try {
+      console.log(await configManager.getGlobalSetting(key));
+    } catch (error) {
+      console.log(chalk.red(`Failed to get setting: ${error instanceof Error ? error.message : String(error)}`));
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('change a global setting used as a default for new instances')
+  .action(async (key, value) => {
+    try {
+      await configManager.setGlobalSetting(key, value);
+      console.log(chalk.green(`✓ ${key} = ${await configManager.getGlobalSetting(key)}`));
+      console.log(chalk.gray('Existing instances are not affected; the new value applies to instances created from now on.'));
+    } catch (error) {
+      console.log(chalk.red(`Failed to set setting: ${error instanceof Error ? error.message : String(error)}`));
       process.exit(1);
     }
   });
@@ -0,0 +1,56 @@
+import { describe, test, expect } from 'bun:test';
+import { mkdtemp, writeFile, mkdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { generateBackupId, getBackupExtension, calculateChecksum } from './manager.js';
+
+describe('Backup IDs', () => {
+  test('should combine instance name and UTC timestamp', () => {
+    const id = generateBackupId('mydb', new Date('2025-06-23T12:34:56.789Z'));
+    expect(id).toBe('mydb-20250623-123456');
+  });
+
+  test('should add a counter when the ID is taken', () => {
+    const date = new Date('2025-06-23T12:34:56.789Z');
+    expect(generateBackupId('mydb', date, new Set(['mydb-20250623-123456']))).toBe('mydb-20250623-123456-2');
+    expect(generateBackupId('mydb', date, new Set(['mydb-20250623-123456', 'mydb-20250623-123456-2']))).toBe('mydb-20250623-123456-3');
+  });
+});
+
+describe('Backup Extensions', () => {
+  test('should pick extensions for logical formats', () => {
+    expect(getBackupExtension('logical', 'custom', true)).toBe('.dump');
+    expect(getBackupExtension('logical', 'plain', false)).toBe('.sql');
+    expect(getBackupExtension('logical', 'plain', true)).toBe('.sql.gz');
+    expect(getBackupExtension('logical', 'tar', false)).toBe('.tar');
+  });
+
+  test('should use directories for directory format and physical backups', () => {
+    expect(getBackupExtension('logical', 'directory', true)).toBe('');
+    expect(getBackupExtension('physical', 'tar', true)).toBe('');
+  });
+});
+
+describe('Backup Checksums', () => {
+  test('should be stable for identical directory contents', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'pgforge-backup-'));
+
+    try {
+      for (const dir of ['a', 'b']) {
+        await mkdir(join(root, dir, 'nested'), { recursive: true });
+        await writeFile(join(root, dir, 'toc.dat'), 'toc');
+        await writeFile(join(root, dir, 'nested', '1.dat'), 'data');
+      }
+
+      const first = await calculateChecksum(join(root, 'a'));
+      const second = await calculateChecksum(join(root, 'b'));
+      expect(first).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(first).toBe(second);
+
+      await writeFile(join(root, 'b', 'nested', '1.dat'), 'changed');
+      expect(await calculateChecksum(join(root, 'b'))).not.toBe(first);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
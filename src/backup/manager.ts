@@ -0,0 +1,424 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { access, chmod, mkdir, mkdtemp, readdir, rm, stat, symlink } from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { ConfigManager } from '../config/manager.js';
+import { SecretsManager } from '../secrets/manager.js';
+import { runPostgreSQLTool, runPsql } from '../utils/postgres.js';
+import { parseRetention } from '../utils/schedule.js';
+import type { PostgreSQLInstanceConfig, BackupCatalogEntry } from '../config/types.js';
+
+const execFileAsync = promisify(execFile);
+
+type BackupType = BackupCatalogEntry['type'];
+type BackupFormat = BackupCatalogEntry['format'];
+
+export class BackupManager {
+  private configManager: ConfigManager;
+  private secretsManager: SecretsManager;
+
+  constructor() {
+    this.configManager = new ConfigManager();
+    this.secretsManager = new SecretsManager();
+  }
+
+  /**
+   * Create a backup of a running instance and record it in the catalog
+   */
+  async createBackup(
+    config: PostgreSQLInstanceConfig,
+    options: { type?: BackupType } = {}
+  ): Promise<BackupCatalogEntry> {
+    const name = config.metadata.name;
+
+    if (config.status?.state !== 'running') {
+      throw new Error(`Instance '${name}' must be running to create a backup`);
+    }
+
+    const type = options.type || config.spec.backup?.type || 'logical';
+    const compression = config.spec.backup?.compression ?? true;
+    const destination = await this.getBackupDestination(config);
+    await mkdir(destination, { recursive: true });
+
+    // A timer run and a manual run can start within the same second
+    const taken = new Set([
+      ...(await this.configManager.getBackupCatalog(name)).backups.map(backup => backup.id),
+      ...(await readdir(destination)).map(file => file.split('.')[0]!),
+    ]);
+    const id = generateBackupId(name, new Date(), taken);
+    console.log(`Creating ${type} backup '${id}' in ${destination}...`);
+
+    let entry: BackupCatalogEntry;
+    if (type === 'physical') {
+      entry = await this.runPhysicalBackup(config, id, destination, compression);
+    } else {
+      const format = config.spec.backup?.format || 'custom';
+      entry = await this.runLogicalBackup(config, id, destination, format, compression);
+    }
+
+    const catalog = await this.configManager.getBackupCatalog(name);
+    catalog.backups.push(entry);
+    await this.configManager.saveBackupCatalog(catalog);
+
+    console.log(`Backup '${id}' recorded in catalog`);
+    return entry;
+  }
+
+  /**
+   * List catalogued backups for an instance, oldest first
+   */
+  async listBackups(name: string): Promise<BackupCatalogEntry[]> {
+    const catalog = await this.configManager.getBackupCatalog(name);
+    return [...catalog.backups].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Find a catalogued backup by ID
+   */
+  async getBackup(name: string, id: string): Promise<BackupCatalogEntry | null> {
+    const backups = await this.listBackups(name);
+    return backups.find(backup => backup.id === id) || null;
+  }
+
+  /**
+   * Delete catalogued backups older than the instance's retention window
+   */
+  async pruneBackups(
+    config: PostgreSQLInstanceConfig,
+    options: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<BackupCatalogEntry[]> {
+    const name = config.metadata.name;
+    const retention = config.spec.backup?.retention;
+    if (!retention) {
+      throw new Error(`Instance '${name}' has no backup retention configured`);
+    }
+
+    const cutoff = (options.now || new Date()).getTime() - parseRetention(retention);
+    const catalog = await this.configManager.getBackupCatalog(name);
+    const expired = catalog.backups.filter(backup => new Date(backup.createdAt).getTime() < cutoff);
+
+    if (options.dryRun || expired.length === 0) {
+      return expired;
+    }
+
+    for (const backup of expired) {
+      console.log(`Removing expired backup '${backup.id}'...`);
+      await rm(backup.path, { recursive: true, force: true });
+    }
+
+    const expiredIds = new Set(expired.map(backup => backup.id));
+    catalog.backups = catalog.backups.filter(backup => !expiredIds.has(backup.id));
+    await this.configManager.saveBackupCatalog(catalog);
+
+    return expired;
+  }
+
+  /**
+   * Verify that a backup still matches the checksum recorded in the catalog
+   */
+  async verifyBackup(entry: BackupCatalogEntry): Promise<void> {
+    try {
+      await access(entry.path);
+    } catch {
+      throw new Error(`Backup '${entry.id}' is missing from ${entry.path}`);
+    }
+
+    const checksum = await calculateChecksum(entry.path);
+    if (checksum !== entry.checksum) {
+      throw new Error(`Backup '${entry.id}' failed checksum verification (expected ${entry.checksum}, got ${checksum})`);
+    }
+  }
+
+  /**
+   * Load a logical backup into the database of a running instance. With
+   * clean, objects from the dump are dropped before being recreated.
+   */
+  async restoreLogicalBackup(
+    config: PostgreSQLInstanceConfig,
+    entry: BackupCatalogEntry,
+    options: { clean?: boolean } = {}
+  ): Promise<void> {
+    const user = config.spec.database.owner;
+    const password = await this.secretsManager.getOwnerPassword(config);
+    const database = config.spec.database.name;
+
+    if (entry.format === 'plain') {
+      if (options.clean) {
+        throw new Error('Plain-format backups cannot be restored in place. Restore into a new instance with --as');
+      }
+      await this.restorePlainBackup(config, entry, user, database, password);
+      return;
+    }
+
+    const args = [
+      '-U', user,
+      '-d', database,
+      '--no-owner',
+      '--no-privileges',
+      '--exit-on-error',
+      '--single-transaction',
+    ];
+
+    if (options.clean) {
+      args.push('--clean', '--if-exists');
+    }
+
+    args.push(entry.path);
+
+    console.log(`Running pg_restore into database '${database}'...`);
+    await runPostgreSQLTool(config, 'pg_restore', args, password);
+  }
+
+  /**
+   * Lay down a physical backup into an empty data directory
+   */
+  async extractPhysicalBackup(entry: BackupCatalogEntry, dataDirectory: string, walDirectory?: string): Promise<void> {
+    const extension = entry.compression ? '.tar.gz' : '.tar';
+    const tarFlags = entry.compression ? '-xzf' : '-xf';
+
+    await mkdir(dataDirectory, { recursive: true });
+    await chmod(dataDirectory, 0o700);
+
+    console.log(`Extracting base backup into ${dataDirectory}...`);
+    await execFileAsync('tar', [tarFlags, join(entry.path, `base${extension}`), '-C', dataDirectory]);
+
+    // The backup was taken from a running server
+    await rm(join(dataDirectory, 'postmaster.pid'), { force: true });
+    await rm(join(dataDirectory, 'postmaster.opts'), { force: true });
+
+    // Point pg_wal at a separate WAL directory like initdb --waldir does
+    const dataWalDirectory = join(dataDirectory, 'pg_wal');
+    if (walDirectory) {
+      await rm(dataWalDirectory, { recursive: true, force: true });
+      await mkdir(walDirectory, { recursive: true });
+      await chmod(walDirectory, 0o700);
+      await symlink(walDirectory, dataWalDirectory);
+    }
+
+    const walArchive = join(entry.path, `pg_wal${extension}`);
+    try {
+      await access(walArchive);
+    } catch {
+      return;
+    }
+
+    const targetWalDirectory = walDirectory || dataWalDirectory;
+    await mkdir(targetWalDirectory, { recursive: true });
+    await execFileAsync('tar', [tarFlags, walArchive, '-C', targetWalDirectory]);
+  }
+
+  private async restorePlainBackup(
+    config: PostgreSQLInstanceConfig,
+    entry: BackupCatalogEntry,
+    user: string,
+    database: string,
+    password?: string
+  ): Promise<void> {
+    let scriptPath = entry.path;
+    let tempDirectory: string | null = null;
+
+    try {
+      if (entry.compression) {
+        // psql cannot read compressed scripts directly
+        tempDirectory = await mkdtemp(join(tmpdir(), 'pgforge-restore-'));
+        scriptPath = join(tempDirectory, 'restore.sql');
+        await pipeline(createReadStream(entry.path), createGunzip(), createWriteStream(scriptPath, { mode: 0o600 }));
+      }
+
+      console.log(`Loading SQL script into database '${database}'...`);
+      await runPostgreSQLTool(config, 'psql', [
+        '-X',
+        '-v', 'ON_ERROR_STOP=1',
+        '--single-transaction',
+        '-U', user,
+        '-d', database,
+        '-f', scriptPath,
+      ], password);
+    } finally {
+      if (tempDirectory) {
+        await rm(tempDirectory, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async getBackupDestination(config: PostgreSQLInstanceConfig): Promise<string> {
+    if (config.spec.backup?.destination) {
+      return config.spec.backup.destination;
+    }
+
+    const globalConfig = await this.configManager.getGlobalConfig();
+    return join(globalConfig.global.backupRoot, config.metadata.name);
+  }
+
+  private async runLogicalBackup(
+    config: PostgreSQLInstanceConfig,
+    id: string,
+    destination: string,
+    format: BackupFormat,
+    compression: boolean
+  ): Promise<BackupCatalogEntry> {
+    const user = config.spec.database.owner;
+    const password = await this.secretsManager.getOwnerPassword(config);
+    const database = config.spec.database.name;
+
+    // pg_dump cannot compress tar archives
+    if (format === 'tar' && compression) {
+      console.log('Note: tar format does not support compression, writing uncompressed archive');
+      compression = false;
+    }
+
+    const path = join(destination, `${id}${getBackupExtension('logical', format, compression)}`);
+    const args = [
+      '-U', user,
+      '-d', database,
+      `--format=${format}`,
+      `--file=${path}`,
+    ];
+
+    if (format !== 'tar') {
+      args.push(`--compress=${compression ? 6 : 0}`);
+    }
+
+    console.log(`Running pg_dump (${format}) for database '${database}'...`);
+    await runPostgreSQLTool(config, 'pg_dump', args, password);
+
+    const postgresqlVersion = await runPsql(config, 'SHOW server_version', { user, password, database });
+
+    return {
+      id,
+      instance: config.metadata.name,
+      type: 'logical',
+      format,
+      compression,
+      path,
+      database,
+      size: await calculateSize(path),
+      checksum: await calculateChecksum(path),
+      postgresqlVersion,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private async runPhysicalBackup(
+    config: PostgreSQLInstanceConfig,
+    id: string,
+    destination: string,
+    compression: boolean
+  ): Promise<BackupCatalogEntry> {
+    const path = join(destination, id);
+
+    // pg_basebackup needs a replication connection as a superuser. Instances
+    // created before the superuser password was kept fall back to PGPASSWORD/.pgpass
+    const password = await this.secretsManager.getSuperuserPassword(config);
+    const args = [
+      '-U', 'postgres',
+      '-D', path,
+      '--format=tar',
+      '--wal-method=stream',
+      '--checkpoint=fast',
+      `--label=${id}`,
+    ];
+
+    if (compression) {
+      args.push('--gzip');
+    }
+
+    console.log('Running pg_basebackup...');
+    await runPostgreSQLTool(config, 'pg_basebackup', args, password);
+
+    const postgresqlVersion = await runPsql(config, 'SHOW server_version', { password });
+
+    return {
+      id,
+      instance: config.metadata.name,
+      type: 'physical',
+      format: 'tar',
+      compression,
+      path,
+      size: await calculateSize(path),
+      checksum: await calculateChecksum(path),
+      postgresqlVersion,
+      createdAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Backup ID from the instance name and UTC time, with a counter appended
+ * when the ID is already taken
+ */
+export function generateBackupId(instanceName: string, date: Date = new Date(), taken: Set<string> = new Set()): string {
+  const timestamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const id = `${instanceName}-${timestamp}`;
+
+  let candidate = id;
+  for (let counter = 2; taken.has(candidate); counter++) {
+    candidate = `${id}-${counter}`;
+  }
+  return candidate;
+}
+
+export function getBackupExtension(type: BackupType, format: BackupFormat, compression: boolean): string {
+  if (type === 'physical' || format === 'directory') {
+    return '';
+  }
+
+  switch (format) {
+    case 'plain':
+      return compression ? '.sql.gz' : '.sql';
+    case 'tar':
+      return '.tar';
+    default:
+      return '.dump';
+  }
+}
+
+async function listFilesRecursive(path: string): Promise<string[]> {
+  const pathStat = await stat(path);
+  if (!pathStat.isDirectory()) {
+    return [path];
+  }
+
+  const files: string[] = [];
+  const entries = (await readdir(path)).sort();
+  for (const entry of entries) {
+    files.push(...await listFilesRecursive(join(path, entry)));
+  }
+  return files;
+}
+
+async function calculateSize(path: string): Promise<number> {
+  let size = 0;
+  for (const file of await listFilesRecursive(path)) {
+    size += (await stat(file)).size;
+  }
+  return size;
+}
+
+/**
+ * SHA-256 over the backup contents. Directory backups hash every file's
+ * relative path and contents in sorted order.
+ */
+export async function calculateChecksum(path: string): Promise<string> {
+  const hash = createHash('sha256');
+  const isDirectory = (await stat(path)).isDirectory();
+
+  for (const file of await listFilesRecursive(path)) {
+    if (isDirectory) {
+      hash.update(relative(path, file));
+    }
+    await new Promise<void>((resolve, reject) => {
+      createReadStream(file)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve())
+        .on('error', reject);
+    });
+  }
+
+  return `sha256:${hash.digest('hex')}`;
+}
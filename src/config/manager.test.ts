@@ -0,0 +1,170 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, writeFile, rm, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager } from './manager.js';
+
+describe('Instance Manifests', () => {
+  const configManager = new ConfigManager();
+
+  async function withManifest(content: string, run: (path: string) => Promise<void>): Promise<void> {
+    const dir = await mkdtemp(join(tmpdir(), 'pgforge-manifest-'));
+    try {
+      const path = join(dir, 'manifest.yaml');
+      await writeFile(path, content);
+      await run(path);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  test('should parse YAML manifests', async () => {
+    await withManifest([
+      'apiVersion: v1',
+      'kind: PostgreSQLInstance',
+      'metadata:',
+      '  name: myapp-db',
+      'spec:',
+      '  version: 17',
+      '  network:',
+      '    port: 5433',
+    ].join('\n'), async (path) => {
+      const manifest = await configManager.loadInstanceManifest(path);
+      expect(manifest.metadata?.name).toBe('myapp-db');
+      expect(manifest.spec?.version).toBe('17');
+      expect(manifest.spec?.network?.port).toBe(5433);
+    });
+  });
+
+  test('should parse JSON manifests', async () => {
+    await withManifest(JSON.stringify({ kind: 'PostgreSQLInstance', metadata: { name: 'json-db' } }), async (path) => {
+      const manifest = await configManager.loadInstanceManifest(path);
+      expect(manifest.metadata?.name).toBe('json-db');
+    });
+  });
+
+  test('should reject manifests of another kind', async () => {
+    await withManifest('kind: Configuration\n', async (path) => {
+      await expect(configManager.loadInstanceManifest(path)).rejects.toThrow("expected 'PostgreSQLInstance'");
+    });
+  });
+
+  test('should overlay manifest spec on generated defaults', async () => {
+    const config = await configManager.createInstanceConfig('myapp-db', { version: '17.0' });
+    configManager.applyManifest(config, {
+      spec: { network: { port: 5440 } } as any,
+      status: { state: 'running', pid: 1 },
+    });
+
+    expect(config.spec.network.port).toBe(5440);
+    expect(config.spec.network.maxConnections).toBe(100);
+    expect(config.spec.database.name).toBe('myapp_db_db');
+    expect(config.status?.state).toBe('stopped');
+  });
+});
+
+describe('Templates', () => {
+  const configManager = new ConfigManager();
+
+  test('should list built-in templates with descriptions', async () => {
+    const templates = await configManager.listTemplates();
+    const names = templates.map(template => template.name);
+
+    expect(names).toContain('development');
+    expect(names).toContain('production');
+    expect(templates.find(template => template.name === 'production')?.description).toBeTruthy();
+  });
+
+  test('should return null for unknown templates', async () => {
+    expect(await configManager.getTemplate('no-such-template')).toBeNull();
+  });
+
+  test('should reject unknown templates when creating instance configs', async () => {
+    await expect(configManager.createInstanceConfig('myapp', { template: 'no-such-template' })).rejects.toThrow("Template 'no-such-template' not found");
+  });
+});
+
+describe('Global Configuration', () => {
+  const configManager = new ConfigManager();
+  const originalHome = process.env.PGFORGE_HOME;
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'pgforge-home-'));
+    process.env.PGFORGE_HOME = configDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.PGFORGE_HOME;
+    } else {
+      process.env.PGFORGE_HOME = originalHome;
+    }
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  test('should resolve the configuration directory from PGFORGE_HOME', () => {
+    expect(configManager.getConfigDirectory()).toBe(configDir);
+  });
+
+  test('should use saved roots and default version for new instances', async () => {
+    await configManager.setGlobalSetting('dataRoot', '/srv/pgforge/data');
+    await configManager.setGlobalSetting('logRoot', '/srv/pgforge/logs');
+    await configManager.setGlobalSetting('postgresql.defaultVersion', '15');
+
+    const config = await configManager.createInstanceConfig('myapp');
+    expect(config.spec.storage.dataDirectory).toBe('/srv/pgforge/data/myapp');
+    expect(config.spec.storage.logDirectory).toBe('/srv/pgforge/logs/myapp');
+    expect(config.spec.version).toBe('15');
+  });
+
+  test('should replace instance files without leaving temporary files behind', async () => {
+    const config = await configManager.createInstanceConfig('myapp');
+    await configManager.saveInstanceConfig(config);
+    config.spec.network.port = 5499;
+    await configManager.saveInstanceConfig(config);
+
+    expect((await configManager.getInstanceConfig('myapp'))?.spec.network.port).toBe(5499);
+    expect(await readdir(join(configDir, 'instances'))).toEqual(['myapp.yaml']);
+  });
+
+  test('should fill settings missing from config.yaml with defaults', async () => {
+    await writeFile(join(configDir, 'config.yaml'), 'global:\n  dataRoot: /srv/data\n');
+
+    const config = await configManager.getGlobalConfig();
+    expect(config.global.dataRoot).toBe('/srv/data');
+    expect(config.global.logRoot).toBeTruthy();
+    expect(config.global.postgresql.versions.length).toBeGreaterThan(0);
+  });
+
+  test('should reject unknown keys and invalid values', async () => {
+    await expect(configManager.setGlobalSetting('dataroot', '/srv')).rejects.toThrow("Unknown setting 'dataroot'");
+    await expect(configManager.setGlobalSetting('dataRoot', 'relative/path')).rejects.toThrow('must be an absolute path');
+    await expect(configManager.setGlobalSetting('postgresql.packageManager', 'pacman')).rejects.toThrow('must be one of');
+  });
+
+  test('should store version lists as arrays', async () => {
+    await configManager.setGlobalSetting('postgresql.versions', '17, 16');
+
+    const config = await configManager.getGlobalConfig();
+    expect(config.global.postgresql.versions).toEqual(['17', '16']);
+    expect(await configManager.getGlobalSetting('postgresql.versions')).toBe('17,16');
+  });
+
+  test('should resolve template inheritance from the templates directory', async () => {
+    await configManager.saveTemplate({ name: 'base', spec: { performance: { sharedBuffers: '1GB', workMem: '8MB' } } });
+    await configManager.saveTemplate({ name: 'child', extends: 'base', spec: { performance: { workMem: '64MB' } } });
+
+    const template = await configManager.getTemplate('child');
+    expect(template?.source).toBe('file');
+    expect(template?.spec.performance?.sharedBuffers).toBe('1GB');
+    expect(template?.spec.performance?.workMem).toBe('64MB');
+  });
+
+  test('should reject circular template inheritance', async () => {
+    await configManager.saveTemplate({ name: 'a', extends: 'b', spec: {} });
+    await configManager.saveTemplate({ name: 'b', extends: 'a', spec: {} });
+
+    await expect(configManager.getTemplate('a')).rejects.toThrow('circular inheritance');
+  });
+});
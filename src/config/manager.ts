@@ -1,21 +1,90 @@
-import { readFile, writeFile, mkdir, access } from 'fs/promises';
+import { readFile, readdir, unlink, mkdir, access } from 'fs/promises';
 import { existsSync } from 'fs';
 import { execSync } from 'child_process';
-import { join, dirname } from 'path';
+import { join, dirname, isAbsolute, resolve } from 'path';
 import { homedir } from 'os';
 import * as YAML from 'yaml';
-import type { PostgreSQLInstanceConfig, GlobalConfig, InstanceTemplate } from './types.js';
+import type { PostgreSQLInstanceConfig, GlobalConfig, InstanceTemplate, TemplateSpec, BackupCatalog, CredentialOutputs } from './types.js';
 import { getCommandVersion, findCommandInPath, getUserDirectories } from '../utils/system.js';
+import { writeFileAtomic } from '../utils/files.js';
+import { LockManager } from '../lock/manager.js';
+
+/**
+ * Global settings editable with "pgforge config", keyed by their path under
+ * the `global` section of config.yaml
+ */
+const GLOBAL_SETTINGS: Record<string, (value: string) => string | string[]> = {
+  dataRoot: parsePathSetting,
+  logRoot: parsePathSetting,
+  backupRoot: parsePathSetting,
+  'postgresql.packageManager': (value) => {
+    const managers = ['apt', 'yum', 'brew', 'manual'];
+    if (!managers.includes(value)) {
+      throw new Error(`must be one of: ${managers.join(', ')}`);
+    }
+    return value;
+  },
+  'postgresql.versions': (value) => {
+    const versions = value.split(',').map(v => v.trim()).filter(Boolean);
+    for (const version of versions) {
+      parseVersionSetting(version);
+    }
+    return versions;
+  },
+  'postgresql.defaultVersion': parseVersionSetting,
+  'secrets.provider': (value) => {
+    const providers = ['file', 'secret-service', 'pass'];
+    if (!providers.includes(value)) {
+      throw new Error(`must be one of: ${providers.join(', ')}`);
+    }
+    return value;
+  },
+};
+
+function parsePathSetting(value: string): string {
+  const path = value.startsWith('~/') ? join(homedir(), value.slice(2)) : value;
+  if (!isAbsolute(path)) {
+    throw new Error('must be an absolute path');
+  }
+  return path;
+}
+
+function parseVersionSetting(value: string): string {
+  if (!/^\d+(\.\d+)?$/.test(value)) {
+    throw new Error(`'${value}' is not a PostgreSQL version (e.g. 16 or 16.4)`);
+  }
+  return value;
+}
 
 export class ConfigManager {
-  private configDir: string;
-  private instancesDir: string;
-  private globalConfigPath: string;
+  // Resolved on every access so PGFORGE_HOME can be set after construction
+  // (the CLI sets it from --config-dir once options are parsed)
+  private get configDir(): string {
+    return process.env.PGFORGE_HOME ? resolve(process.env.PGFORGE_HOME) : join(homedir(), '.pgforge');
+  }
+
+  private get instancesDir(): string {
+    return join(this.configDir, 'instances');
+  }
+
+  private get backupsDir(): string {
+    return join(this.configDir, 'backups');
+  }
+
+  private get credentialsDir(): string {
+    return join(this.configDir, 'credentials');
+  }
+
+  private get templatesDir(): string {
+    return join(this.configDir, 'templates');
+  }
 
-  constructor() {
-    this.configDir = join(homedir(), '.pgforge');
-    this.instancesDir = join(this.configDir, 'instances');
-    this.globalConfigPath = join(this.configDir, 'config.yaml');
+  private get globalConfigPath(): string {
+    return join(this.configDir, 'config.yaml');
+  }
+
+  getConfigDirectory(): string {
+    return this.configDir;
   }
 
   async ensureConfigDirectory(): Promise<void> {
@@ -32,20 +101,131 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * The saved global configuration, with anything it leaves out filled in
+   * from the defaults. Built-in templates are not included.
+   */
   async getGlobalConfig(): Promise<GlobalConfig> {
+    const { templates, ...config } = this.getDefaultGlobalConfig();
+    const saved = await this.loadSavedGlobalConfig();
+
+    if (saved) {
+      this.deepMerge(config, saved);
+    }
+
+    return config;
+  }
+
+  /**
+   * Write config.yaml with the default settings if it does not exist yet.
+   * Returns whether a new file was created.
+   */
+  async initializeGlobalConfig(): Promise<boolean> {
+    return this.withConfigLock(async () => {
+      if (existsSync(this.globalConfigPath)) {
+        return false;
+      }
+
+      const { templates, ...config } = this.getDefaultGlobalConfig();
+      config.global.postgresql.defaultVersion = this.detectInstalledPostgreSQLVersion() || config.global.postgresql.defaultVersion;
+      await this.saveGlobalConfig(config);
+      return true;
+    });
+  }
+
+  /**
+   * Current values of the settings editable with "pgforge config"
+   */
+  async listGlobalSettings(): Promise<Record<string, string>> {
+    const config = await this.getGlobalConfig();
+    const settings: Record<string, string> = {};
+
+    for (const key of Object.keys(GLOBAL_SETTINGS)) {
+      const value = this.getPath(config.global, key);
+      settings[key] = Array.isArray(value) ? value.join(',') : String(value ?? '');
+    }
+
+    return settings;
+  }
+
+  async getGlobalSetting(key: string): Promise<string> {
+    this.assertGlobalSetting(key);
+    const settings = await this.listGlobalSettings();
+    return settings[key] ?? '';
+  }
+
+  /**
+   * Validate and persist a single global setting. Only the saved file is
+   * modified, so keys the user never set keep following the defaults.
+   */
+  async setGlobalSetting(key: string, value: string): Promise<void> {
+    const parse = this.assertGlobalSetting(key);
+
+    let parsed: string | string[];
     try {
-      const content = await readFile(this.globalConfigPath, 'utf-8');
-      return YAML.parse(content) as GlobalConfig;
+      parsed = parse(value);
+    } catch (error) {
+      throw new Error(`Invalid value for '${key}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    await this.withConfigLock(async () => {
+      const saved = await this.loadSavedGlobalConfig() || { apiVersion: 'v1', kind: 'Configuration' };
+      saved.global ??= {} as GlobalConfig['global'];
+      this.setPath(saved.global, key, parsed);
+      await this.saveGlobalConfig(saved as GlobalConfig);
+    });
+  }
+
+  /**
+   * Hold the lock of config.yaml while reading and rewriting it, so
+   * concurrent processes do not drop each other's changes
+   */
+  private withConfigLock<T>(fn: () => Promise<T>): Promise<T> {
+    return new LockManager(this).withStoreLock('config', fn);
+  }
+
+  private assertGlobalSetting(key: string): (value: string) => string | string[] {
+    const parse = GLOBAL_SETTINGS[key];
+    if (!parse) {
+      throw new Error(`Unknown setting '${key}'. Valid settings: ${Object.keys(GLOBAL_SETTINGS).join(', ')}`);
+    }
+    return parse;
+  }
+
+  private async loadSavedGlobalConfig(): Promise<Partial<GlobalConfig> | null> {
+    let content: string;
+    try {
+      content = await readFile(this.globalConfigPath, 'utf-8');
     } catch {
-      // Return default config if file doesn't exist
-      return this.getDefaultGlobalConfig();
+      return null;
+    }
+
+    try {
+      const parsed = YAML.parse(content);
+      return parsed && typeof parsed === 'object' ? parsed as Partial<GlobalConfig> : null;
+    } catch (error) {
+      throw new Error(`Invalid global configuration ${this.globalConfigPath}: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  private getPath(target: any, path: string): unknown {
+    return path.split('.').reduce((value, key) => value?.[key], target);
+  }
+
+  private setPath(target: any, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const last = keys.pop()!;
+    for (const key of keys) {
+      if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+      target = target[key];
+    }
+    target[last] = value;
+  }
+
   async saveGlobalConfig(config: GlobalConfig): Promise<void> {
     await this.ensureConfigDirectory();
     const yamlContent = YAML.stringify(config, { indent: 2 });
-    await writeFile(this.globalConfigPath, yamlContent, 'utf-8');
+    await writeFileAtomic(this.globalConfigPath, yamlContent);
   }
 
   async getInstanceConfig(name: string): Promise<PostgreSQLInstanceConfig | null> {
@@ -62,12 +242,55 @@ export class ConfigManager {
     await this.ensureConfigDirectory();
     const configPath = join(this.instancesDir, `${config.metadata.name}.yaml`);
     const yamlContent = YAML.stringify(config, { indent: 2 });
-    await writeFile(configPath, yamlContent, 'utf-8');
+    await writeFileAtomic(configPath, yamlContent);
+  }
+
+  /**
+   * Load a YAML or JSON instance manifest (JSON is valid YAML)
+   */
+  async loadInstanceManifest(path: string): Promise<Partial<PostgreSQLInstanceConfig>> {
+    const content = await readFile(path, 'utf-8');
+
+    let manifest: unknown;
+    try {
+      manifest = YAML.parse(content);
+    } catch (error) {
+      throw new Error(`Failed to parse manifest '${path}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!manifest || typeof manifest !== 'object' || Array.isArray(manifest)) {
+      throw new Error(`Manifest '${path}' must contain a PostgreSQLInstance object`);
+    }
+
+    const { kind } = manifest as Partial<PostgreSQLInstanceConfig>;
+    if (kind && kind !== 'PostgreSQLInstance') {
+      throw new Error(`Manifest '${path}' has kind '${kind}', expected 'PostgreSQLInstance'`);
+    }
+
+    // Unquoted versions such as `version: 17` parse as numbers
+    const spec = (manifest as Partial<PostgreSQLInstanceConfig>).spec;
+    if (spec && typeof spec.version === 'number') {
+      spec.version = String(spec.version);
+    }
+
+    return manifest as Partial<PostgreSQLInstanceConfig>;
+  }
+
+  /**
+   * Overlay a manifest on top of a generated configuration. Runtime status
+   * from the manifest is ignored.
+   */
+  applyManifest(config: PostgreSQLInstanceConfig, manifest: Partial<PostgreSQLInstanceConfig>): void {
+    if (manifest.metadata) {
+      this.deepMerge(config.metadata, manifest.metadata);
+    }
+    if (manifest.spec) {
+      this.deepMerge(config.spec, manifest.spec);
+    }
   }
 
   async listInstances(): Promise<string[]> {
     try {
-      const { readdir } = await import('fs/promises');
       const files = await readdir(this.instancesDir);
       return files
         .filter(file => file.endsWith('.yaml'))
@@ -79,7 +302,6 @@ export class ConfigManager {
 
   async deleteInstance(name: string): Promise<boolean> {
     try {
-      const { unlink } = await import('fs/promises');
       const configPath = join(this.instancesDir, `${name}.yaml`);
       await unlink(configPath);
       return true;
@@ -88,6 +310,52 @@ export class ConfigManager {
     }
   }
 
+  async getBackupCatalog(name: string): Promise<BackupCatalog> {
+    try {
+      const catalogPath = join(this.backupsDir, `${name}.yaml`);
+      const content = await readFile(catalogPath, 'utf-8');
+      return YAML.parse(content) as BackupCatalog;
+    } catch {
+      return {
+        apiVersion: 'v1',
+        kind: 'BackupCatalog',
+        metadata: { instance: name },
+        backups: [],
+      };
+    }
+  }
+
+  async saveBackupCatalog(catalog: BackupCatalog): Promise<void> {
+    await this.ensureConfigDirectory();
+    await mkdir(this.backupsDir, { recursive: true });
+    const catalogPath = join(this.backupsDir, `${catalog.metadata.instance}.yaml`);
+    const yamlContent = YAML.stringify(catalog, { indent: 2 });
+    await writeFileAtomic(catalogPath, yamlContent);
+  }
+
+  async getCredentialOutputs(name: string): Promise<CredentialOutputs> {
+    try {
+      const outputsPath = join(this.credentialsDir, `${name}.yaml`);
+      const content = await readFile(outputsPath, 'utf-8');
+      return YAML.parse(content) as CredentialOutputs;
+    } catch {
+      return {
+        apiVersion: 'v1',
+        kind: 'CredentialOutputs',
+        metadata: { instance: name },
+        outputs: [],
+      };
+    }
+  }
+
+  async saveCredentialOutputs(record: CredentialOutputs): Promise<void> {
+    await this.ensureConfigDirectory();
+    await mkdir(this.credentialsDir, { recursive: true });
+    const outputsPath = join(this.credentialsDir, `${record.metadata.instance}.yaml`);
+    const yamlContent = YAML.stringify(record, { indent: 2 });
+    await writeFileAtomic(outputsPath, yamlContent);
+  }
+
   private detectInstalledPostgreSQLVersion(): string | null {
     // Try to detect the installed PostgreSQL version using the same logic as the check command
     try {
@@ -159,19 +427,27 @@ export class ConfigManager {
     return null;
   }
 
-  createInstanceConfig(
+  async createInstanceConfig(
     name: string,
     options: {
       template?: string;
       port?: number;
       version?: string;
     } = {}
-  ): PostgreSQLInstanceConfig {
-    const globalConfig = this.getDefaultGlobalConfig();
-    const template = options.template ? this.getTemplate(options.template) : null;
+  ): Promise<PostgreSQLInstanceConfig> {
+    const globalConfig = await this.getGlobalConfig();
+    const savedConfig = await this.loadSavedGlobalConfig();
+    const template = options.template ? await this.getTemplate(options.template) : null;
+    if (options.template && !template) {
+      throw new Error(`Template '${options.template}' not found. Run "pgforge template list" to see available templates`);
+    }
     
     const defaultPort = options.port || 5432;
-    const version = options.version || this.detectInstalledPostgreSQLVersion() || globalConfig.global.postgresql.defaultVersion;
+    // An explicitly saved default wins over whatever happens to be installed
+    const version = options.version
+      || savedConfig?.global?.postgresql?.defaultVersion
+      || this.detectInstalledPostgreSQLVersion()
+      || globalConfig.global.postgresql.defaultVersion;
 
     const config: PostgreSQLInstanceConfig = {
       apiVersion: 'v1',
@@ -190,7 +466,8 @@ export class ConfigManager {
         version,
         network: {
           port: defaultPort,
-          bindAddress: '0.0.0.0',
+          // Loopback only; listening on other interfaces is an explicit choice
+          bindAddress: '127.0.0.1',
           maxConnections: 100,
         },
         storage: {
@@ -198,8 +475,9 @@ export class ConfigManager {
           logDirectory: join(globalConfig.global.logRoot, name),
         },
         database: {
-          name: `${name}_db`,
-          owner: `${name}_user`,
+          // Instance names allow hyphens, PostgreSQL identifiers here do not
+          name: `${name.replace(/-/g, '_')}_db`,
+          owner: `${name.replace(/-/g, '_')}_user`,
           encoding: 'UTF8',
           locale: 'en_US.UTF-8',
           timezone: 'UTC',
@@ -209,8 +487,8 @@ export class ConfigManager {
             enabled: false,
           },
           authentication: {
-            method: 'md5',
-            allowedHosts: ['127.0.0.1/32', '::1/128', '0.0.0.0/0'],
+            method: 'scram-sha-256',
+            allowedHosts: ['127.0.0.1/32', '::1/128'],
           },
           audit: {
             enabled: false,
@@ -254,9 +532,13 @@ export class ConfigManager {
           versions: ['17.0', '16.7', '15.10'],
           defaultVersion: '17.0',
         },
+        secrets: {
+          provider: 'file',
+        },
       },
       templates: {
         development: {
+          description: 'Local development: small memory footprint, no SSL, audit or backups',
           performance: {
             sharedBuffers: '64MB',
             workMem: '2MB',
@@ -274,6 +556,7 @@ export class ConfigManager {
           },
         },
         production: {
+          description: 'Production: SSL, audit logging and nightly backups kept for 7 days',
           performance: {
             sharedBuffers: '256MB',
             workMem: '8MB',
@@ -294,6 +577,7 @@ export class ConfigManager {
           },
         },
         testing: {
+          description: 'Testing: loopback only on port 5433 with fewer connections',
           network: {
             port: 5433,
             bindAddress: '127.0.0.1',
@@ -307,18 +591,108 @@ export class ConfigManager {
     };
   }
 
-  private getTemplate(templateName: string): InstanceTemplate | null {
-    const globalConfig = this.getDefaultGlobalConfig();
-    const templateSpec = globalConfig.templates?.[templateName];
-    
-    if (!templateSpec) {
+  /**
+   * All template definitions, unresolved. Templates in ~/.pgforge/templates/
+   * override those in config.yaml, which override the built-in ones.
+   */
+  async listTemplates(): Promise<InstanceTemplate[]> {
+    const templates = new Map<string, InstanceTemplate>();
+
+    const builtins = this.getDefaultGlobalConfig().templates || {};
+    for (const [name, entry] of Object.entries(builtins)) {
+      templates.set(name, this.templateFromSpec(name, entry, 'builtin'));
+    }
+
+    const globalConfig = await this.getGlobalConfig();
+    for (const [name, entry] of Object.entries(globalConfig.templates || {})) {
+      templates.set(name, this.templateFromSpec(name, entry, 'config'));
+    }
+
+    for (const template of await this.loadTemplateFiles()) {
+      templates.set(template.name, template);
+    }
+
+    return [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Resolve a template by name, merging the specs of every template it
+   * extends with the most specific last
+   */
+  async getTemplate(templateName: string): Promise<InstanceTemplate | null> {
+    const templates = new Map((await this.listTemplates()).map(template => [template.name, template]));
+    const template = templates.get(templateName);
+
+    if (!template) {
       return null;
     }
 
-    return {
-      name: templateName,
-      spec: templateSpec,
-    };
+    const chain: InstanceTemplate[] = [];
+    for (let current: InstanceTemplate | undefined = template; current; current = current.extends ? templates.get(current.extends) : undefined) {
+      if (chain.includes(current)) {
+        throw new Error(`Template '${templateName}' has circular inheritance: ${[...chain, current].map(t => t.name).join(' -> ')}`);
+      }
+      if (current.extends && !templates.has(current.extends)) {
+        throw new Error(`Template '${current.name}' extends unknown template '${current.extends}'`);
+      }
+      chain.push(current);
+    }
+
+    const spec = {};
+    for (const ancestor of chain.reverse()) {
+      this.deepMerge(spec, structuredClone(ancestor.spec));
+    }
+
+    return { ...template, spec };
+  }
+
+  async saveTemplate(template: InstanceTemplate): Promise<void> {
+    await mkdir(this.templatesDir, { recursive: true });
+    const { source, ...definition } = template;
+    const templatePath = join(this.templatesDir, `${template.name}.yaml`);
+    await writeFileAtomic(templatePath, YAML.stringify(definition, { indent: 2 }));
+  }
+
+  async deleteTemplate(name: string): Promise<boolean> {
+    try {
+      await unlink(join(this.templatesDir, `${name}.yaml`));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async loadTemplateFiles(): Promise<InstanceTemplate[]> {
+    let files: string[];
+    try {
+      files = (await readdir(this.templatesDir)).filter(file => file.endsWith('.yaml') || file.endsWith('.yml'));
+    } catch {
+      return [];
+    }
+
+    const templates: InstanceTemplate[] = [];
+    for (const file of files) {
+      const path = join(this.templatesDir, file);
+      try {
+        const definition = YAML.parse(await readFile(path, 'utf-8')) as Partial<InstanceTemplate>;
+        templates.push({
+          name: definition.name || file.replace(/\.ya?ml$/, ''),
+          description: definition.description,
+          extends: definition.extends,
+          source: 'file',
+          spec: definition.spec || {},
+        });
+      } catch (error) {
+        console.warn(`Warning: Could not load template '${path}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return templates;
+  }
+
+  private templateFromSpec(name: string, entry: TemplateSpec, source: InstanceTemplate['source']): InstanceTemplate {
+    const { description, extends: parent, ...spec } = entry;
+    return { name, description, extends: parent, source, spec };
   }
 
   private mergeTemplateIntoConfig(config: PostgreSQLInstanceConfig, template: InstanceTemplate): void {
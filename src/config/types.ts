@@ -22,21 +22,32 @@ export interface PostgreSQLInstanceConfig {
     database: {
       name: string;
       owner: string;
+      // Plaintext password of instances created before secret references
       password?: string;
+      // Secret references, "<provider>:<key>" (e.g. "file:myapp-db/owner")
+      passwordRef?: string;
+      superuserPasswordRef?: string;
       encoding: string;
       locale: string;
       timezone: string;
     };
+    // Further databases and roles that `apply` creates and keeps in line
+    databases?: DatabaseSpec[];
+    roles?: RoleSpec[];
+    extensions?: ExtensionSpec[];
     security?: {
       ssl?: {
         enabled: boolean;
         certificatePath?: string;
         keyPath?: string;
+        caPath?: string;
         ciphers?: string;
       };
       authentication?: {
-        method: 'md5' | 'scram-sha-256' | 'trust' | 'peer';
+        method: 'md5' | 'scram-sha-256' | 'trust' | 'peer' | 'cert';
         allowedHosts?: string[];
+        // Rendered in order ahead of the lines generated from method and allowedHosts
+        rules?: HbaRule[];
       };
       audit?: {
         enabled: boolean;
@@ -44,6 +55,13 @@ export interface PostgreSQLInstanceConfig {
         logConnections?: boolean;
         logDisconnections?: boolean;
         logStatements?: string[];
+        pgaudit?: {
+          enabled: boolean;
+          classes?: string[];
+          logRelation?: boolean;
+          logParameter?: boolean;
+          logCatalog?: boolean;
+        };
       };
     };
     performance?: {
@@ -54,12 +72,15 @@ export interface PostgreSQLInstanceConfig {
       walBuffers?: string;
       checkpointCompletionTarget?: number;
       randomPageCost?: number;
+      maxWorkerProcesses?: number;
     };
+    parameters?: Record<string, string>;
     backup?: {
       enabled: boolean;
       schedule?: string;
       retention?: string;
       compression?: boolean;
+      type?: 'logical' | 'physical';
       format?: 'custom' | 'plain' | 'directory' | 'tar';
       destination?: string;
     };
@@ -72,6 +93,8 @@ export interface PostgreSQLInstanceConfig {
   };
   status?: {
     state: 'stopped' | 'starting' | 'running' | 'stopping' | 'error';
+    // Why the state is error, or what is unusual about it
+    message?: string;
     pid?: number;
     startTime?: string;
     lastRestart?: string;
@@ -98,12 +121,130 @@ export interface GlobalConfig {
       versions: string[];
       defaultVersion: string;
     };
+    secrets?: {
+      provider: 'file' | 'secret-service' | 'pass';
+    };
   };
-  templates?: Record<string, Partial<PostgreSQLInstanceConfig['spec']>>;
+  templates?: Record<string, TemplateSpec>;
 }
 
+/**
+ * Template entry in the global configuration: spec fields plus optional
+ * description and parent template
+ */
+export type TemplateSpec = Partial<PostgreSQLInstanceConfig['spec']> & {
+  description?: string;
+  extends?: string;
+};
+
 export interface InstanceTemplate {
   name: string;
   description?: string;
+  extends?: string;
+  source?: 'builtin' | 'config' | 'file';
   spec: Partial<PostgreSQLInstanceConfig['spec']>;
-}
\ No newline at end of file
+}
+
+export interface BackupCatalogEntry {
+  id: string;
+  instance: string;
+  type: 'logical' | 'physical';
+  format: 'custom' | 'plain' | 'directory' | 'tar';
+  compression: boolean;
+  path: string;
+  database?: string;
+  size: number;
+  checksum: string;
+  postgresqlVersion: string;
+  createdAt: string;
+}
+
+export interface BackupCatalog {
+  apiVersion: string;
+  kind: string;
+  metadata: {
+    instance: string;
+  };
+  backups: BackupCatalogEntry[];
+}
+
+export interface CredentialOutput {
+  format: 'pgpass' | 'service' | 'env';
+  path: string;
+  user: string;
+}
+
+/**
+ * Files PgForge has written credentials to, so rotation can refresh them
+ */
+export interface CredentialOutputs {
+  apiVersion: string;
+  kind: 'CredentialOutputs';
+  metadata: {
+    instance: string;
+  };
+  outputs: CredentialOutput[];
+}
+
+/**
+ * One pg_hba.conf line. database and user take comma-separated names or the
+ * keywords pg_hba.conf accepts (all, sameuser, replication, +group).
+ */
+export interface HbaRule {
+  type: 'local' | 'host' | 'hostssl' | 'hostnossl';
+  database: string;
+  user: string;
+  // CIDR, hostname, all, samehost or samenet; not used for local rules
+  address?: string;
+  method: 'trust' | 'reject' | 'md5' | 'scram-sha-256' | 'password' | 'peer' | 'ident' | 'cert' | 'ldap' | 'radius' | 'pam' | 'gss' | 'sspi';
+  options?: Record<string, string>;
+}
+
+export interface DatabaseSpec {
+  name: string;
+  // Defaults to spec.database.owner
+  owner?: string;
+  encoding?: string;
+  locale?: string;
+}
+
+export interface RoleSpec {
+  name: string;
+  login?: boolean;
+  // Password for a login role; PgForge generates and stores one when not set
+  passwordRef?: string;
+  createdb?: boolean;
+  createrole?: boolean;
+  connectionLimit?: number;
+  memberOf?: string[];
+  privileges?: RolePrivilege[];
+  defaultPrivileges?: DefaultPrivilege[];
+}
+
+export interface RolePrivilege {
+  database: string;
+  on: 'database' | 'schema' | 'tables' | 'sequences' | 'functions';
+  // Defaults to public; not used for database privileges
+  schema?: string;
+  privileges: string[];
+}
+
+/**
+ * Privileges on objects created later, through ALTER DEFAULT PRIVILEGES
+ */
+export interface DefaultPrivilege {
+  database: string;
+  on: 'tables' | 'sequences' | 'functions';
+  schema?: string;
+  privileges: string[];
+  // Role whose new objects get the privileges; defaults to the database owner
+  forRole?: string;
+}
+
+export interface ExtensionSpec {
+  name: string;
+  version?: string;
+  // Defaults to spec.database.name
+  database?: string;
+  schema?: string;
+}
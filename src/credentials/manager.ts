@@ -0,0 +1,211 @@
+import { chmod, readFile, writeFile } from 'fs/promises';
+import { homedir } from 'os';
+import { resolve } from 'path';
+import { ConfigManager } from '../config/manager.js';
+import type { PostgreSQLInstanceConfig, CredentialOutput } from '../config/types.js';
+
+export type CredentialFormat = CredentialOutput['format'];
+
+export const CREDENTIAL_FORMATS: CredentialFormat[] = ['pgpass', 'service', 'env'];
+
+export interface ConnectionCredentials {
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  password: string;
+}
+
+export class CredentialsManager {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = new ConfigManager();
+  }
+
+  /**
+   * Write connection credentials for a role to a .pgpass, pg_service.conf or
+   * .env file, replacing any previous entry for the same role, and remember
+   * the file so rotation can refresh it
+   */
+  async exportCredentials(
+    config: PostgreSQLInstanceConfig,
+    format: CredentialFormat,
+    user: string,
+    password: string,
+    path?: string
+  ): Promise<string> {
+    const outputPath = resolve(path || getDefaultOutputPath(format));
+    await this.writeOutput(config, { format, path: outputPath, user }, password);
+
+    const record = await this.configManager.getCredentialOutputs(config.metadata.name);
+    const exists = record.outputs.some(output => output.format === format && output.path === outputPath && output.user === user);
+    if (!exists) {
+      record.outputs.push({ format, path: outputPath, user });
+      await this.configManager.saveCredentialOutputs(record);
+    }
+
+    return outputPath;
+  }
+
+  /**
+   * Rewrite every exported file holding the password of `user`. Returns the
+   * paths that were updated.
+   */
+  async refreshOutputs(config: PostgreSQLInstanceConfig, user: string, password: string): Promise<string[]> {
+    const record = await this.configManager.getCredentialOutputs(config.metadata.name);
+    const refreshed: string[] = [];
+
+    for (const output of record.outputs.filter(output => output.user === user)) {
+      try {
+        await this.writeOutput(config, output, password);
+        refreshed.push(output.path);
+      } catch (error) {
+        console.log(`Warning: could not update ${output.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return refreshed;
+  }
+
+  private async writeOutput(config: PostgreSQLInstanceConfig, output: CredentialOutput, password: string): Promise<void> {
+    const credentials = getConnectionCredentials(config, output.user, password);
+
+    let content = '';
+    try {
+      content = await readFile(output.path, 'utf-8');
+    } catch {
+      // New file
+    }
+
+    let updated: string;
+    switch (output.format) {
+      case 'pgpass':
+        updated = updatePgpassContent(content, credentials);
+        break;
+      case 'service':
+        updated = updateServiceContent(content, getServiceName(config, output.user), credentials);
+        break;
+      case 'env':
+        updated = updateEnvContent(content, credentials);
+        break;
+    }
+
+    // libpq ignores a .pgpass readable by others, and the rest hold passwords too
+    await writeFile(output.path, updated, { encoding: 'utf-8', mode: 0o600 });
+    await chmod(output.path, 0o600);
+  }
+}
+
+export function getConnectionCredentials(config: PostgreSQLInstanceConfig, user: string, password: string): ConnectionCredentials {
+  const bindAddress = config.spec.network.bindAddress;
+  return {
+    host: bindAddress === '0.0.0.0' || bindAddress === '*' ? 'localhost' : bindAddress,
+    port: config.spec.network.port,
+    database: config.spec.database.name,
+    user,
+    password,
+  };
+}
+
+export function getDefaultOutputPath(format: CredentialFormat): string {
+  switch (format) {
+    case 'pgpass':
+      return process.env.PGPASSFILE || resolve(homedir(), '.pgpass');
+    case 'service':
+      return process.env.PGSERVICEFILE || resolve(homedir(), '.pg_service.conf');
+    case 'env':
+      return resolve('.env');
+  }
+}
+
+/**
+ * pg_service.conf section name: the instance name, suffixed with the role
+ * when it is not the database owner
+ */
+export function getServiceName(config: PostgreSQLInstanceConfig, user: string): string {
+  const name = `pgforge-${config.metadata.name}`;
+  return user === config.spec.database.owner ? name : `${name}-${user}`;
+}
+
+/**
+ * Replace the .pgpass line for the same host, port, database and user
+ */
+export function updatePgpassContent(content: string, credentials: ConnectionCredentials): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/:/g, '\\:');
+  const prefix = [credentials.host, String(credentials.port), credentials.database, credentials.user].map(escape).join(':') + ':';
+
+  const lines = trimTrailingBlankLines(content.split('\n').filter(line => !line.startsWith(prefix)));
+  lines.push(prefix + escape(credentials.password));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Replace (or append) one [section] of a pg_service.conf file
+ */
+export function updateServiceContent(content: string, section: string, credentials: ConnectionCredentials): string {
+  const lines = content.split('\n');
+  const kept: string[] = [];
+  let inSection = false;
+
+  for (const line of lines) {
+    const header = line.trim().match(/^\[(.+)\]$/);
+    if (header) {
+      inSection = header[1] === section;
+    }
+    if (!inSection) {
+      kept.push(line);
+    }
+  }
+
+  trimTrailingBlankLines(kept);
+  if (kept.length > 0) {
+    kept.push('');
+  }
+
+  kept.push(
+    `[${section}]`,
+    `host=${credentials.host}`,
+    `port=${credentials.port}`,
+    `dbname=${credentials.database}`,
+    `user=${credentials.user}`,
+    `password=${credentials.password}`,
+  );
+
+  return kept.join('\n') + '\n';
+}
+
+/**
+ * Set the libpq variables and DATABASE_URL in a .env file, keeping every
+ * other line as it was
+ */
+export function updateEnvContent(content: string, credentials: ConnectionCredentials): string {
+  const url = `postgresql://${encodeURIComponent(credentials.user)}:${encodeURIComponent(credentials.password)}@${credentials.host}:${credentials.port}/${encodeURIComponent(credentials.database)}`;
+  const variables: Record<string, string> = {
+    PGHOST: credentials.host,
+    PGPORT: String(credentials.port),
+    PGDATABASE: credentials.database,
+    PGUSER: credentials.user,
+    PGPASSWORD: credentials.password,
+    DATABASE_URL: url,
+  };
+
+  const lines = trimTrailingBlankLines(content.split('\n').filter(line => {
+    const name = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/)?.[1];
+    return !(name && name in variables);
+  }));
+
+  for (const [name, value] of Object.entries(variables)) {
+    lines.push(`${name}=${value}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function trimTrailingBlankLines(lines: string[]): string[] {
+  while (lines.length > 0 && lines[lines.length - 1]!.trim() === '') {
+    lines.pop();
+  }
+  return lines;
+}
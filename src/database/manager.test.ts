@@ -0,0 +1,30 @@
+import { describe, test, expect } from 'bun:test';
+import { createDatabaseSql, roleAttributesSql, grantPrivilegeSql, defaultPrivilegeSql } from './manager.js';
+
+describe('Database SQL', () => {
+  test('should create databases from template0 when encoding or locale is set', () => {
+    expect(createDatabaseSql({ name: 'reports' }, 'app_user')).toBe('CREATE DATABASE "reports" OWNER "app_user"');
+    expect(createDatabaseSql({ name: 'reports', encoding: 'UTF8' }, 'app_user'))
+      .toBe(`CREATE DATABASE "reports" OWNER "app_user" ENCODING 'UTF8' TEMPLATE template0`);
+  });
+
+  test('should spell out every role attribute so ALTER ROLE converges', () => {
+    expect(roleAttributesSql({ name: 'reader' })).toBe('NOLOGIN NOCREATEDB NOCREATEROLE CONNECTION LIMIT -1');
+    expect(roleAttributesSql({ name: 'app', login: true, createdb: true, connectionLimit: 10 }))
+      .toBe('LOGIN CREATEDB NOCREATEROLE CONNECTION LIMIT 10');
+  });
+
+  test('should grant privileges on each kind of object', () => {
+    expect(grantPrivilegeSql('reader', { database: 'app', on: 'database', privileges: ['connect'] }))
+      .toBe('GRANT CONNECT ON DATABASE "app" TO "reader"');
+    expect(grantPrivilegeSql('reader', { database: 'app', on: 'tables', schema: 'sales', privileges: ['select', 'insert'] }))
+      .toBe('GRANT SELECT, INSERT ON ALL TABLES IN SCHEMA "sales" TO "reader"');
+    expect(grantPrivilegeSql('reader', { database: 'app', on: 'schema', privileges: ['usage'] }))
+      .toBe('GRANT USAGE ON SCHEMA "public" TO "reader"');
+  });
+
+  test('should set default privileges for objects a role creates later', () => {
+    expect(defaultPrivilegeSql('reader', { database: 'app', on: 'tables', privileges: ['select'] }, 'app_user'))
+      .toBe('ALTER DEFAULT PRIVILEGES FOR ROLE "app_user" IN SCHEMA "public" GRANT SELECT ON TABLES TO "reader"');
+  });
+});
@@ -0,0 +1,267 @@
+import { SecretsManager } from '../secrets/manager.js';
+import { runPsql, quoteIdentifier, quoteLiteral } from '../utils/postgres.js';
+import { generateSecurePassword, encryptPassword } from '../utils/password.js';
+import { getPasswordMethod } from '../instance/conf.js';
+import type { PostgreSQLInstanceConfig, DatabaseSpec, RoleSpec, RolePrivilege, DefaultPrivilege } from '../config/types.js';
+
+const SYSTEM_DATABASES = ['postgres', 'template0', 'template1'];
+
+export interface DatabaseInfo {
+  name: string;
+  owner: string;
+  encoding: string;
+  size: string;
+}
+
+export interface RoleInfo {
+  name: string;
+  login: boolean;
+  superuser: boolean;
+  createdb: boolean;
+  createrole: boolean;
+  connectionLimit: number;
+  memberOf: string[];
+}
+
+/**
+ * Databases and roles inside a running instance, managed over its Unix
+ * socket as the superuser
+ */
+export class DatabaseManager {
+  private secretsManager: SecretsManager;
+
+  constructor() {
+    this.secretsManager = new SecretsManager();
+  }
+
+  async listDatabases(config: PostgreSQLInstanceConfig): Promise<DatabaseInfo[]> {
+    const output = await this.query(
+      config,
+      'SELECT datname, pg_get_userbyid(datdba), pg_encoding_to_char(encoding), pg_size_pretty(pg_database_size(datname)) ' +
+      'FROM pg_database WHERE NOT datistemplate ORDER BY datname'
+    );
+
+    return parseRows(output).map(([name, owner, encoding, size]) => ({
+      name: name!,
+      owner: owner || '',
+      encoding: encoding || '',
+      size: size || '',
+    }));
+  }
+
+  async createDatabase(config: PostgreSQLInstanceConfig, database: DatabaseSpec): Promise<void> {
+    await this.query(config, createDatabaseSql(database, database.owner || config.spec.database.owner));
+  }
+
+  async dropDatabase(config: PostgreSQLInstanceConfig, name: string, options: { force?: boolean } = {}): Promise<void> {
+    if (name === config.spec.database.name || SYSTEM_DATABASES.includes(name)) {
+      throw new Error(`Database '${name}' cannot be dropped; remove the instance instead`);
+    }
+
+    // FORCE terminates open connections to the database first
+    await this.query(config, `DROP DATABASE ${quoteIdentifier(name)}${options.force ? ' WITH (FORCE)' : ''}`);
+  }
+
+  async listRoles(config: PostgreSQLInstanceConfig): Promise<RoleInfo[]> {
+    const output = await this.query(
+      config,
+      'SELECT r.rolname, r.rolcanlogin, r.rolsuper, r.rolcreatedb, r.rolcreaterole, r.rolconnlimit, ' +
+      "COALESCE((SELECT string_agg(g.rolname, ',' ORDER BY g.rolname) FROM pg_auth_members m JOIN pg_roles g ON g.oid = m.roleid WHERE m.member = r.oid), '') " +
+      "FROM pg_roles r WHERE r.rolname !~ '^pg_' ORDER BY r.rolname"
+    );
+
+    return parseRows(output).map(([name, login, superuser, createdb, createrole, connectionLimit, memberOf]) => ({
+      name: name!,
+      login: login === 't',
+      superuser: superuser === 't',
+      createdb: createdb === 't',
+      createrole: createrole === 't',
+      connectionLimit: parseInt(connectionLimit || '-1'),
+      memberOf: memberOf ? memberOf.split(',') : [],
+    }));
+  }
+
+  /**
+   * Create a role and its memberships. A login role gets the password behind
+   * its passwordRef, or a generated one kept in the secret store. Returns the
+   * reference of the password, if any.
+   */
+  async createRole(config: PostgreSQLInstanceConfig, role: RoleSpec): Promise<string | undefined> {
+    if (role.name === config.spec.database.owner || role.name === 'postgres') {
+      throw new Error(`Role '${role.name}' is managed by PgForge and cannot be created`);
+    }
+
+    let password: string | undefined;
+    let ref: string | undefined;
+    if (role.login) {
+      ref = role.passwordRef;
+      password = ref ? await this.secretsManager.resolve(ref) : generateSecurePassword();
+    }
+
+    await this.query(config, `CREATE ROLE ${quoteIdentifier(role.name)} WITH ${roleAttributesSql(role)}${password ? ` PASSWORD ${quoteLiteral(encryptPassword(password, role.name, getPasswordMethod(config)))}` : ''}`);
+
+    // Stored only once the role exists, so a failed CREATE ROLE cannot
+    // overwrite the password of a role that is already there
+    if (password && !ref) {
+      try {
+        ref = await this.secretsManager.store(this.secretsManager.getRoleSecretKey(config.metadata.name, role.name), password);
+      } catch (error) {
+        await this.query(config, `DROP ROLE ${quoteIdentifier(role.name)}`).catch(() => {});
+        throw error;
+      }
+    }
+
+    for (const group of role.memberOf || []) {
+      await this.grantMembership(config, role.name, group);
+    }
+
+    return ref;
+  }
+
+  async dropRole(config: PostgreSQLInstanceConfig, name: string): Promise<void> {
+    if (name === config.spec.database.owner || name === 'postgres') {
+      throw new Error(`Role '${name}' is managed by PgForge and cannot be dropped`);
+    }
+
+    await this.query(config, `DROP ROLE ${quoteIdentifier(name)}`);
+
+    // Only the generated password; a passwordRef from the spec belongs to the user
+    await this.secretsManager.delete(await this.secretsManager.getGeneratedRoleSecretRef(config, name));
+  }
+
+  async grantMembership(config: PostgreSQLInstanceConfig, role: string, group: string): Promise<void> {
+    await this.query(config, `GRANT ${quoteIdentifier(group)} TO ${quoteIdentifier(role)}`);
+  }
+
+  async grantPrivilege(config: PostgreSQLInstanceConfig, role: string, privilege: RolePrivilege): Promise<void> {
+    // Schema and object grants only reach the database they are run in
+    await this.query(config, grantPrivilegeSql(role, privilege), privilege.database);
+  }
+
+  /**
+   * Bring the databases and roles listed in spec.databases and spec.roles in
+   * line with the spec. Missing ones are created, attributes, owners and
+   * memberships are corrected and privileges are granted again; nothing is
+   * dropped or revoked. Returns a description of each change made.
+   */
+  async converge(config: PostgreSQLInstanceConfig): Promise<string[]> {
+    const changes: string[] = [];
+    const roles = config.spec.roles || [];
+    const databases = config.spec.databases || [];
+
+    const existingRoles = new Map((await this.listRoles(config)).map(role => [role.name, role]));
+    for (const role of roles) {
+      const existing = existingRoles.get(role.name);
+      if (!existing) {
+        await this.createRole(config, role);
+        changes.push(`created role ${role.name}`);
+        continue;
+      }
+
+      if (!hasRoleAttributes(existing, role)) {
+        await this.query(config, `ALTER ROLE ${quoteIdentifier(role.name)} WITH ${roleAttributesSql(role)}`);
+        changes.push(`updated attributes of role ${role.name}`);
+      }
+
+      for (const group of (role.memberOf || []).filter(group => !existing.memberOf.includes(group))) {
+        await this.grantMembership(config, role.name, group);
+        changes.push(`granted ${group} to ${role.name}`);
+      }
+    }
+
+    const existingDatabases = new Map((await this.listDatabases(config)).map(database => [database.name, database]));
+    for (const database of databases) {
+      const owner = database.owner || config.spec.database.owner;
+      const existing = existingDatabases.get(database.name);
+      if (!existing) {
+        await this.createDatabase(config, database);
+        changes.push(`created database ${database.name}`);
+      } else if (existing.owner !== owner) {
+        await this.query(config, `ALTER DATABASE ${quoteIdentifier(database.name)} OWNER TO ${quoteIdentifier(owner)}`);
+        changes.push(`changed owner of database ${database.name} to ${owner}`);
+      }
+    }
+
+    // GRANT is idempotent, so privileges are applied on every run
+    for (const role of roles) {
+      for (const privilege of role.privileges || []) {
+        await this.grantPrivilege(config, role.name, privilege);
+      }
+      for (const defaults of role.defaultPrivileges || []) {
+        const forRole = defaults.forRole || getDatabaseOwner(config, defaults.database);
+        await this.query(config, defaultPrivilegeSql(role.name, defaults, forRole), defaults.database);
+      }
+    }
+
+    return changes;
+  }
+
+  private async query(config: PostgreSQLInstanceConfig, sql: string, database?: string): Promise<string> {
+    const admin = await this.secretsManager.getAdminConnection(config);
+    if (admin.user !== 'postgres') {
+      throw new Error(`The superuser password of '${config.metadata.name}' is not stored; it is needed to manage databases and roles`);
+    }
+
+    return runPsql(config, sql, { ...admin, database: database || admin.database });
+  }
+}
+
+export function createDatabaseSql(database: DatabaseSpec, owner: string): string {
+  let sql = `CREATE DATABASE ${quoteIdentifier(database.name)} OWNER ${quoteIdentifier(owner)}`;
+  if (database.encoding) {
+    sql += ` ENCODING ${quoteLiteral(database.encoding)}`;
+  }
+  if (database.locale) {
+    sql += ` LOCALE ${quoteLiteral(database.locale)}`;
+  }
+  // template1 only allows its own encoding and locale
+  if (database.encoding || database.locale) {
+    sql += ' TEMPLATE template0';
+  }
+  return sql;
+}
+
+export function roleAttributesSql(role: RoleSpec): string {
+  return [
+    role.login ? 'LOGIN' : 'NOLOGIN',
+    role.createdb ? 'CREATEDB' : 'NOCREATEDB',
+    role.createrole ? 'CREATEROLE' : 'NOCREATEROLE',
+    `CONNECTION LIMIT ${role.connectionLimit ?? -1}`,
+  ].join(' ');
+}
+
+export function grantPrivilegeSql(role: string, privilege: RolePrivilege): string {
+  const privileges = privilege.privileges.map(p => p.toUpperCase()).join(', ');
+  const schema = quoteIdentifier(privilege.schema || 'public');
+
+  const target = {
+    database: `DATABASE ${quoteIdentifier(privilege.database)}`,
+    schema: `SCHEMA ${schema}`,
+    tables: `ALL TABLES IN SCHEMA ${schema}`,
+    sequences: `ALL SEQUENCES IN SCHEMA ${schema}`,
+    functions: `ALL FUNCTIONS IN SCHEMA ${schema}`,
+  }[privilege.on];
+
+  return `GRANT ${privileges} ON ${target} TO ${quoteIdentifier(role)}`;
+}
+
+export function defaultPrivilegeSql(role: string, defaults: DefaultPrivilege, forRole: string): string {
+  const privileges = defaults.privileges.map(p => p.toUpperCase()).join(', ');
+  return `ALTER DEFAULT PRIVILEGES FOR ROLE ${quoteIdentifier(forRole)} IN SCHEMA ${quoteIdentifier(defaults.schema || 'public')} ` +
+    `GRANT ${privileges} ON ${defaults.on.toUpperCase()} TO ${quoteIdentifier(role)}`;
+}
+
+function hasRoleAttributes(existing: RoleInfo, role: RoleSpec): boolean {
+  return existing.login === Boolean(role.login)
+    && existing.createdb === Boolean(role.createdb)
+    && existing.createrole === Boolean(role.createrole)
+    && existing.connectionLimit === (role.connectionLimit ?? -1);
+}
+
+function getDatabaseOwner(config: PostgreSQLInstanceConfig, database: string): string {
+  return config.spec.databases?.find(d => d.name === database)?.owner || config.spec.database.owner;
+}
+
+function parseRows(output: string): string[][] {
+  return output.split('\n').filter(Boolean).map(line => line.split('|'));
+}
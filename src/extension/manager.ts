@@ -0,0 +1,162 @@
+import { SecretsManager } from '../secrets/manager.js';
+import { runPsql, quoteIdentifier, quoteLiteral } from '../utils/postgres.js';
+import { LIBRARY_ONLY_EXTENSIONS } from '../instance/conf.js';
+import type { PostgreSQLInstanceConfig, ExtensionSpec } from '../config/types.js';
+
+export interface InstalledExtension {
+  name: string;
+  version: string;
+  schema: string;
+  database: string;
+}
+
+export interface AvailableExtension {
+  name: string;
+  defaultVersion: string;
+  installedVersion?: string;
+  description: string;
+}
+
+/**
+ * Extensions inside the databases of a running instance
+ */
+export class ExtensionManager {
+  private secretsManager: SecretsManager;
+
+  constructor() {
+    this.secretsManager = new SecretsManager();
+  }
+
+  async listInstalled(config: PostgreSQLInstanceConfig, database: string): Promise<InstalledExtension[]> {
+    const output = await this.query(
+      config,
+      'SELECT e.extname, e.extversion, n.nspname FROM pg_extension e JOIN pg_namespace n ON n.oid = e.extnamespace ORDER BY e.extname',
+      database
+    );
+
+    return parseRows(output).map(([name, version, schema]) => ({
+      name: name!,
+      version: version || '',
+      schema: schema || '',
+      database,
+    }));
+  }
+
+  async listAvailable(config: PostgreSQLInstanceConfig, database: string): Promise<AvailableExtension[]> {
+    const output = await this.query(
+      config,
+      'SELECT name, default_version, installed_version, comment FROM pg_available_extensions ORDER BY name',
+      database
+    );
+
+    return parseRows(output).map(([name, defaultVersion, installedVersion, description]) => ({
+      name: name!,
+      defaultVersion: defaultVersion || '',
+      installedVersion: installedVersion || undefined,
+      description: description || '',
+    }));
+  }
+
+  /**
+   * Fail unless the server has the extension, and the requested version of
+   * it, installed as a package
+   */
+  async checkAvailable(config: PostgreSQLInstanceConfig, extension: ExtensionSpec): Promise<void> {
+    if (LIBRARY_ONLY_EXTENSIONS.includes(extension.name)) {
+      return;
+    }
+
+    const database = extension.database || config.spec.database.name;
+    const versions = (await this.query(
+      config,
+      `SELECT version FROM pg_available_extension_versions WHERE name = ${quoteLiteral(extension.name)}`,
+      database
+    )).split('\n').filter(Boolean);
+
+    if (versions.length === 0) {
+      throw new Error(`Extension '${extension.name}' is not available on PostgreSQL ${config.spec.version}; install its package (e.g. postgresql-contrib) first`);
+    }
+    if (extension.version && !versions.includes(extension.version)) {
+      throw new Error(`Extension '${extension.name}' has no version ${extension.version}. Available: ${versions.join(', ')}`);
+    }
+  }
+
+  /**
+   * Create the extension, or update it to the requested version. Returns
+   * a description of the change, or null if there was nothing to do.
+   */
+  async enable(config: PostgreSQLInstanceConfig, extension: ExtensionSpec): Promise<string | null> {
+    if (LIBRARY_ONLY_EXTENSIONS.includes(extension.name)) {
+      return null;
+    }
+
+    const database = extension.database || config.spec.database.name;
+    const installed = (await this.listInstalled(config, database)).find(e => e.name === extension.name);
+
+    if (!installed) {
+      let sql = `CREATE EXTENSION ${quoteIdentifier(extension.name)}`;
+      if (extension.schema) {
+        sql += ` SCHEMA ${quoteIdentifier(extension.schema)}`;
+      }
+      if (extension.version) {
+        sql += ` VERSION ${quoteLiteral(extension.version)}`;
+      }
+      await this.query(config, sql, database);
+      return `created extension ${extension.name} in ${database}`;
+    }
+
+    if (extension.version && installed.version !== extension.version) {
+      await this.query(config, `ALTER EXTENSION ${quoteIdentifier(extension.name)} UPDATE TO ${quoteLiteral(extension.version)}`, database);
+      return `updated extension ${extension.name} in ${database} to ${extension.version}`;
+    }
+
+    return null;
+  }
+
+  async disable(config: PostgreSQLInstanceConfig, name: string, database: string, options: { cascade?: boolean } = {}): Promise<void> {
+    if (LIBRARY_ONLY_EXTENSIONS.includes(name)) {
+      return;
+    }
+
+    await this.query(config, `DROP EXTENSION IF EXISTS ${quoteIdentifier(name)}${options.cascade ? ' CASCADE' : ''}`, database);
+  }
+
+  /**
+   * Libraries the running server has loaded through shared_preload_libraries
+   */
+  async getLoadedLibraries(config: PostgreSQLInstanceConfig): Promise<string[]> {
+    const output = await this.query(config, 'SHOW shared_preload_libraries');
+    return output.split(',').map(library => library.trim()).filter(Boolean);
+  }
+
+  /**
+   * Create or update every extension in spec.extensions. Extensions are not
+   * dropped when they leave the spec. Returns a description of each change.
+   */
+  async converge(config: PostgreSQLInstanceConfig): Promise<string[]> {
+    const changes: string[] = [];
+
+    for (const extension of config.spec.extensions || []) {
+      await this.checkAvailable(config, extension);
+      const change = await this.enable(config, extension);
+      if (change) {
+        changes.push(change);
+      }
+    }
+
+    return changes;
+  }
+
+  private async query(config: PostgreSQLInstanceConfig, sql: string, database?: string): Promise<string> {
+    const admin = await this.secretsManager.getAdminConnection(config);
+    if (admin.user !== 'postgres') {
+      throw new Error(`The superuser password of '${config.metadata.name}' is not stored; it is needed to manage extensions`);
+    }
+
+    return runPsql(config, sql, { ...admin, database: database || admin.database });
+  }
+}
+
+function parseRows(output: string): string[][] {
+  return output.split('\n').filter(Boolean).map(line => line.split('|'));
+}
@@ -0,0 +1,329 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  generatePostgreSQLConf,
+  generatePgHbaConf,
+  parsePostgreSQLConf,
+  diffSettings,
+  getSettingAction,
+  getLogStatementLevel,
+  getSharedPreloadLibraries,
+  getHbaRules,
+  matchHbaRule,
+  buildReloadReport
+} from './conf.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+
+const baseConfig: PostgreSQLInstanceConfig = {
+  apiVersion: 'v1',
+  kind: 'PostgreSQLInstance',
+  metadata: { name: 'test-db' },
+  spec: {
+    version: '17.0',
+    network: { port: 5432, bindAddress: '127.0.0.1', maxConnections: 100 },
+    storage: { dataDirectory: '/data/test-db', logDirectory: '/logs/test-db' },
+    database: { name: 'testdb', owner: 'test_user', encoding: 'UTF8', locale: 'en_US.UTF-8', timezone: 'UTC' },
+    performance: { sharedBuffers: '128MB', workMem: '4MB' }
+  }
+};
+
+describe('postgresql.conf Generation', () => {
+  test('should render network and performance settings', () => {
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(baseConfig));
+    expect(settings.port).toBe('5432');
+    expect(settings.listen_addresses).toBe('127.0.0.1');
+    expect(settings.shared_buffers).toBe('128MB');
+    expect(settings.unix_socket_directories).toBe('/data/test-db/sockets');
+  });
+
+  test('should enable WAL archiving when an archive directory is set', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, storage: { ...baseConfig.spec.storage, archiveDirectory: '/archive' } }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.archive_mode).toBe('on');
+    expect(settings.archive_command).toBe(`test ! -f '/archive'/%f && cp "%p" '/archive'/%f`);
+    expect(settings.restore_command).toBe(`cp '/archive'/%f "%p"`);
+  });
+
+  test('should quote archive directories for the config file and the shell', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, storage: { ...baseConfig.spec.storage, archiveDirectory: "/archive/it's $HOME 100%" } }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.archive_command).toBe(`test ! -f '/archive/it'\\''s $HOME 100%%'/%f && cp "%p" '/archive/it'\\''s $HOME 100%%'/%f`);
+    expect(settings.restore_command).toBe(`cp '/archive/it'\\''s $HOME 100%%'/%f "%p"`);
+  });
+
+  test('should render SSL certificate, key, CA and ciphers', () => {
+    const config = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        security: {
+          ssl: { enabled: true, certificatePath: '/tls/server.crt', keyPath: '/tls/server.key', caPath: '/tls/ca.crt', ciphers: 'HIGH:!aNULL' }
+        }
+      }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.ssl).toBe('on');
+    expect(settings.ssl_cert_file).toBe('/tls/server.crt');
+    expect(settings.ssl_key_file).toBe('/tls/server.key');
+    expect(settings.ssl_ca_file).toBe('/tls/ca.crt');
+    expect(settings.ssl_ciphers).toBe('HIGH:!aNULL');
+  });
+
+  test('should quote SSL paths containing quotes', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { ssl: { enabled: true, certificatePath: "/tls/o'brien/server.crt", keyPath: "/tls/o'brien/server.key" } } }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.ssl_cert_file).toBe("/tls/o'brien/server.crt");
+    expect(settings.ssl_key_file).toBe("/tls/o'brien/server.key");
+  });
+
+  test('should render audit logging with defaults when enabled', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { audit: { enabled: true, logDisconnections: false, logLevel: 'warning' } } }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.log_connections).toBe('on');
+    expect(settings.log_disconnections).toBe('off');
+    expect(settings.log_statement).toBe('ddl');
+    expect(settings.log_min_messages).toBe('warning');
+    expect(settings.shared_preload_libraries).toBeUndefined();
+  });
+
+  test('should use the broadest log_statement level listed', () => {
+    expect(getLogStatementLevel(['ddl', 'mod'])).toBe('mod');
+    expect(getLogStatementLevel(['all', 'ddl'])).toBe('all');
+    expect(getLogStatementLevel([])).toBe('none');
+  });
+
+  test('should preload and configure pgaudit', () => {
+    const config = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        security: { audit: { enabled: true, pgaudit: { enabled: true, classes: ['write', 'ddl'], logRelation: true } } }
+      }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.shared_preload_libraries).toBe('pgaudit');
+    expect(settings['pgaudit.log']).toBe('write,ddl');
+    expect(settings['pgaudit.log_relation']).toBe('on');
+    expect(getSharedPreloadLibraries(config)).toEqual(['pgaudit']);
+  });
+
+  test('should render every performance field', () => {
+    const config = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        performance: { ...baseConfig.spec.performance, walBuffers: '16MB', checkpointCompletionTarget: 0.9, randomPageCost: 1.1 }
+      }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.wal_buffers).toBe('16MB');
+    expect(settings.checkpoint_completion_target).toBe('0.9');
+    expect(settings.random_page_cost).toBe('1.1');
+  });
+
+  test('should write custom parameters last and quoted', () => {
+    const config = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        parameters: { work_mem: '16MB', application_name: "it's pgforge", shared_preload_libraries: 'pg_stat_statements' }
+      }
+    };
+    const content = generatePostgreSQLConf(config);
+    const settings = parsePostgreSQLConf(content);
+    expect(settings.work_mem).toBe('16MB');
+    expect(settings.application_name).toBe("it's pgforge");
+    expect(content).toContain("application_name = 'it''s pgforge'");
+    expect(content.match(/shared_preload_libraries/g)).toHaveLength(1);
+    expect(settings.shared_preload_libraries).toBe('pg_stat_statements');
+  });
+
+  test('should merge requested preload libraries with managed ones', () => {
+    const config = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        security: { audit: { enabled: true, pgaudit: { enabled: true } } },
+        parameters: { shared_preload_libraries: 'pg_stat_statements, pgaudit' }
+      }
+    };
+    expect(getSharedPreloadLibraries(config)).toEqual(['pgaudit', 'pg_stat_statements']);
+  });
+
+  test('should ignore audit settings while audit is disabled', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { audit: { enabled: false, pgaudit: { enabled: true } } } }
+    };
+    const settings = parsePostgreSQLConf(generatePostgreSQLConf(config));
+    expect(settings.log_connections).toBeUndefined();
+    expect(settings.shared_preload_libraries).toBeUndefined();
+  });
+});
+
+describe('Extension Libraries', () => {
+  test('should preload libraries for extensions that need them', () => {
+    const config = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        extensions: [{ name: 'pg_stat_statements' }, { name: 'hstore' }, { name: 'pg_cron', database: 'jobs' }],
+        parameters: { shared_preload_libraries: 'pg_stat_statements,auto_explain' }
+      }
+    };
+
+    expect(getSharedPreloadLibraries(config)).toEqual(['pg_stat_statements', 'pg_cron', 'auto_explain']);
+    expect(parsePostgreSQLConf(generatePostgreSQLConf(config))['cron.database_name']).toBe('jobs');
+  });
+});
+
+describe('pg_hba.conf Generation', () => {
+  test('should render one host line per allowed host', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { authentication: { method: 'md5' as const, allowedHosts: ['10.0.0.0/8'] } } }
+    };
+    expect(generatePgHbaConf(config)).toMatch(/^host\s+all\s+all\s+10\.0\.0\.0\/8\s+md5$/m);
+  });
+
+  test('should use scram-sha-256 for every password line when configured', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { authentication: { method: 'scram-sha-256' as const, allowedHosts: ['10.0.0.0/8'] } } }
+    };
+    const lines = generatePgHbaConf(config).split('\n').filter(line => /^(local|host)/.test(line));
+
+    expect(lines.length).toBe(3);
+    expect(lines.every(line => line.endsWith('scram-sha-256'))).toBe(true);
+    expect(parsePostgreSQLConf(generatePostgreSQLConf(config)).password_encryption).toBe('scram-sha-256');
+  });
+
+  test('should keep md5 password hashing by default', () => {
+    expect(parsePostgreSQLConf(generatePostgreSQLConf(baseConfig)).password_encryption).toBe('md5');
+    expect(generatePgHbaConf(baseConfig)).toMatch(/^local\s+all\s+all\s+md5$/m);
+  });
+
+  test('should require SSL connections for cert authentication', () => {
+    const config = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { authentication: { method: 'cert' as const, allowedHosts: ['10.0.0.0/8'] } } }
+    };
+    expect(generatePgHbaConf(config)).toMatch(/^hostssl\s+all\s+all\s+10\.0\.0\.0\/8\s+cert$/m);
+  });
+});
+
+describe('pg_hba Rules', () => {
+  const config: PostgreSQLInstanceConfig = {
+    ...baseConfig,
+    spec: {
+      ...baseConfig.spec,
+      security: {
+        ssl: { enabled: true },
+        authentication: {
+          method: 'scram-sha-256',
+          allowedHosts: ['10.0.0.0/8'],
+          rules: [
+            { type: 'hostssl', database: 'app,reports', user: 'app_user', address: '10.1.0.0/16', method: 'cert', options: { clientcert: 'verify-full' } },
+            { type: 'host', database: 'all', user: 'all', address: '10.2.0.0/16', method: 'reject' },
+          ]
+        }
+      }
+    }
+  };
+
+  test('should render spec rules in order before the generated lines', () => {
+    const lines = generatePgHbaConf(config).split('\n').filter(line => /^(local|host)/.test(line));
+
+    expect(lines[0]).toMatch(/^hostssl\s+app,reports\s+app_user\s+10\.1\.0\.0\/16\s+cert clientcert=verify-full$/);
+    expect(lines[1]).toMatch(/^host\s+all\s+all\s+10\.2\.0\.0\/16\s+reject$/);
+    expect(lines[2]).toMatch(/^local\s+all/);
+    expect(lines[4]).toMatch(/^host\s+all\s+all\s+10\.0\.0\.0\/8\s+scram-sha-256$/);
+  });
+
+  test('should report the first matching rule', () => {
+    const rules = getHbaRules(config);
+
+    expect(matchHbaRule(rules, { user: 'app_user', database: 'app', address: '10.1.2.3', ssl: true })?.index).toBe(0);
+    // Without SSL the hostssl rule is skipped and the allowedHosts line applies
+    expect(matchHbaRule(rules, { user: 'app_user', database: 'app', address: '10.1.2.3', ssl: false })?.index).toBe(4);
+    expect(matchHbaRule(rules, { user: 'app_user', database: 'app', address: '10.2.0.1' })?.rule.method).toBe('reject');
+    expect(matchHbaRule(rules, { user: 'app_user', database: 'app' })?.rule.type).toBe('local');
+    expect(matchHbaRule(rules, { user: 'app_user', database: 'app', address: '192.168.1.1' })).toBeNull();
+  });
+
+  test('should match IPv6 networks and replication connections', () => {
+    const rules = [
+      { type: 'host' as const, database: 'all', user: 'all', address: 'fd00::/8', method: 'md5' as const },
+      { type: 'host' as const, database: 'replication', user: 'replicator', address: 'all', method: 'md5' as const },
+    ];
+
+    expect(matchHbaRule(rules, { user: 'u', database: 'd', address: 'fd12::1' })?.index).toBe(0);
+    expect(matchHbaRule(rules, { user: 'replicator', database: 'replication', address: 'fd12::1' })?.index).toBe(1);
+    expect(matchHbaRule(rules, { user: 'u', database: 'replication', address: 'fd12::1' })).toBeNull();
+  });
+});
+
+describe('postgresql.conf Parsing', () => {
+  test('should unquote values and skip comments', () => {
+    const settings = parsePostgreSQLConf([
+      '# comment',
+      "log_filename = 'postgresql-%Y.log'  # trailing",
+      'port = 5433',
+      "search_path = '\"$user\", public'",
+      "application_name = 'it''s'",
+    ].join('\n'));
+
+    expect(settings).toEqual({
+      log_filename: 'postgresql-%Y.log',
+      port: '5433',
+      search_path: '"$user", public',
+      application_name: "it's",
+    });
+  });
+
+  test('should report added, removed and changed settings', () => {
+    const changes = diffSettings("port = 5432\nwork_mem = '4MB'\n", "port = 5433\nshared_buffers = '1GB'\n");
+    expect(changes).toEqual([
+      { name: 'port', before: '5432', after: '5433' },
+      { name: 'shared_buffers', before: undefined, after: '1GB' },
+      { name: 'work_mem', before: '4MB', after: undefined },
+    ]);
+  });
+
+  test('should decide between reload and restart', () => {
+    expect(getSettingAction('work_mem', 'user')).toBe('reload');
+    expect(getSettingAction('shared_buffers', 'postmaster')).toBe('restart');
+    expect(getSettingAction('port')).toBe('restart');
+    expect(getSettingAction('work_mem')).toBe('reload');
+  });
+});
+
+describe('Reload Report', () => {
+  test('should list changed, pending and rejected settings', () => {
+    const report = buildReloadReport(
+      { work_mem: '4MB', shared_buffers: '128MB', log_min_duration_statement: '-1' },
+      { work_mem: '8MB', shared_buffers: '128MB', log_min_duration_statement: '-1' },
+      [{ name: 'shared_buffers', setting: '128MB' }],
+      [
+        { file: '/data/test-db/postgresql.conf', line: 12, name: 'shared_buffers', error: 'setting could not be applied' },
+        { file: '/data/test-db/postgresql.conf', line: 40, name: 'log_min_duration_statement', error: 'invalid value for parameter "log_min_duration_statement": "soon"' },
+        { file: 'pg_hba.conf', line: 3, error: 'invalid authentication method "scram"' },
+      ]
+    );
+
+    expect(report.applied).toEqual([{ name: 'work_mem', before: '4MB', after: '8MB' }]);
+    expect(report.pendingRestart.map(setting => setting.name)).toEqual(['shared_buffers']);
+    expect(report.rejected.map(error => error.line)).toEqual([40, 3]);
+  });
+});
@@ -0,0 +1,494 @@
+import { BlockList, isIP } from 'net';
+import type { PostgreSQLInstanceConfig, HbaRule } from '../config/types.js';
+import { getSocketDirectory } from '../utils/postgres.js';
+import { LOG_STATEMENT_LEVELS } from '../utils/constants.js';
+import { parseCidr } from '../utils/validation.js';
+
+// Recovery targets for point-in-time recovery, included from postgresql.conf
+export const RECOVERY_CONF_FILE = 'pgforge-recovery.conf';
+
+// Extensions whose library must be in shared_preload_libraries
+export const PRELOAD_EXTENSIONS = ['pg_stat_statements', 'auto_explain', 'pg_cron', 'pgaudit', 'timescaledb'];
+
+// Modules loaded as a library only, without CREATE EXTENSION
+export const LIBRARY_ONLY_EXTENSIONS = ['auto_explain'];
+
+const DEFAULT_AUDIT_STATEMENTS = ['ddl'];
+const DEFAULT_PGAUDIT_CLASSES = ['ddl', 'role'];
+
+/**
+ * Libraries the server has to load at start for the features a spec enables
+ */
+export function getSharedPreloadLibraries(config: PostgreSQLInstanceConfig): string[] {
+  const libraries: string[] = [];
+
+  const audit = config.spec.security?.audit;
+  if (audit?.enabled && audit.pgaudit?.enabled) {
+    libraries.push('pgaudit');
+  }
+
+  for (const extension of config.spec.extensions || []) {
+    if (PRELOAD_EXTENSIONS.includes(extension.name) && !libraries.includes(extension.name)) {
+      libraries.push(extension.name);
+    }
+  }
+
+  // Libraries requested through spec.parameters are merged rather than replacing these
+  const requested = config.spec.parameters?.shared_preload_libraries;
+  if (requested) {
+    for (const library of String(requested).split(',').map(l => l.trim()).filter(Boolean)) {
+      if (!libraries.includes(library)) {
+        libraries.push(library);
+      }
+    }
+  }
+
+  return libraries;
+}
+
+/**
+ * Password hashing that matches the configured authentication method.
+ * Methods without passwords of their own (cert, peer, trust) keep md5 for
+ * the local socket lines PgForge connects through.
+ */
+export function getPasswordMethod(config: PostgreSQLInstanceConfig): 'md5' | 'scram-sha-256' {
+  return config.spec.security?.authentication?.method === 'scram-sha-256' ? 'scram-sha-256' : 'md5';
+}
+
+/**
+ * The single log_statement value covering every entry of logStatements
+ */
+export function getLogStatementLevel(statements: string[]): string {
+  return statements.reduce(
+    (widest, statement) => LOG_STATEMENT_LEVELS.indexOf(statement) > LOG_STATEMENT_LEVELS.indexOf(widest) ? statement : widest,
+    'none'
+  );
+}
+
+export function generatePostgreSQLConf(config: PostgreSQLInstanceConfig): string {
+  // Create socket directory path within the instance data directory
+  const socketDirectory = getSocketDirectory(config);
+
+  const lines = [
+    '# PostgreSQL configuration generated by PgForge',
+    `port = ${config.spec.network.port}`,
+    `listen_addresses = '${config.spec.network.bindAddress}'`,
+    `max_connections = ${config.spec.network.maxConnections}`,
+    '',
+    '# Socket configuration - avoid system permission issues',
+    `unix_socket_directories = '${socketDirectory}'`,
+    '',
+    '# Authentication',
+    `password_encryption = '${getPasswordMethod(config)}'`,
+    '',
+    '# Performance settings',
+  ];
+
+  if (config.spec.performance?.sharedBuffers) {
+    lines.push(`shared_buffers = '${config.spec.performance.sharedBuffers}'`);
+  }
+  if (config.spec.performance?.effectiveCacheSize) {
+    lines.push(`effective_cache_size = '${config.spec.performance.effectiveCacheSize}'`);
+  }
+  if (config.spec.performance?.workMem) {
+    lines.push(`work_mem = '${config.spec.performance.workMem}'`);
+  }
+  if (config.spec.performance?.maintenanceWorkMem) {
+    lines.push(`maintenance_work_mem = '${config.spec.performance.maintenanceWorkMem}'`);
+  }
+  if (config.spec.performance?.walBuffers) {
+    lines.push(`wal_buffers = '${config.spec.performance.walBuffers}'`);
+  }
+  if (config.spec.performance?.checkpointCompletionTarget !== undefined) {
+    lines.push(`checkpoint_completion_target = ${config.spec.performance.checkpointCompletionTarget}`);
+  }
+  if (config.spec.performance?.randomPageCost !== undefined) {
+    lines.push(`random_page_cost = ${config.spec.performance.randomPageCost}`);
+  }
+  if (config.spec.performance?.maxWorkerProcesses !== undefined) {
+    lines.push(`max_worker_processes = ${config.spec.performance.maxWorkerProcesses}`);
+  }
+
+  lines.push('');
+  lines.push('# Logging');
+  lines.push(`log_directory = '${config.spec.storage.logDirectory}'`);
+  lines.push("log_filename = 'postgresql-%Y-%m-%d_%H%M%S.log'");
+  lines.push('logging_collector = on');
+
+  const audit = config.spec.security?.audit;
+  if (audit?.enabled) {
+    lines.push('');
+    lines.push('# Audit logging');
+    lines.push(`log_connections = ${(audit.logConnections ?? true) ? 'on' : 'off'}`);
+    lines.push(`log_disconnections = ${(audit.logDisconnections ?? true) ? 'on' : 'off'}`);
+    lines.push(`log_statement = '${getLogStatementLevel(audit.logStatements || DEFAULT_AUDIT_STATEMENTS)}'`);
+    if (audit.logLevel) {
+      lines.push(`log_min_messages = '${audit.logLevel}'`);
+    }
+    // Attribute every entry to a user, database and client
+    lines.push("log_line_prefix = '%m [%p] %q%u@%d from %h '");
+
+    if (audit.pgaudit?.enabled) {
+      lines.push(`pgaudit.log = '${(audit.pgaudit.classes || DEFAULT_PGAUDIT_CLASSES).join(',')}'`);
+      lines.push(`pgaudit.log_relation = ${audit.pgaudit.logRelation ? 'on' : 'off'}`);
+      lines.push(`pgaudit.log_parameter = ${audit.pgaudit.logParameter ? 'on' : 'off'}`);
+      lines.push(`pgaudit.log_catalog = ${(audit.pgaudit.logCatalog ?? true) ? 'on' : 'off'}`);
+    }
+  }
+
+  const ssl = config.spec.security?.ssl;
+  if (ssl?.enabled) {
+    lines.push('');
+    lines.push('# SSL Configuration');
+    lines.push('ssl = on');
+    if (ssl.certificatePath) {
+      lines.push(`ssl_cert_file = ${quoteSetting(ssl.certificatePath)}`);
+    }
+    if (ssl.keyPath) {
+      lines.push(`ssl_key_file = ${quoteSetting(ssl.keyPath)}`);
+    }
+    // Lets the server verify client certificates for cert authentication
+    if (ssl.caPath) {
+      lines.push(`ssl_ca_file = ${quoteSetting(ssl.caPath)}`);
+    }
+    if (ssl.ciphers) {
+      lines.push(`ssl_ciphers = ${quoteSetting(ssl.ciphers)}`);
+    }
+  }
+
+  const libraries = getSharedPreloadLibraries(config);
+  if (libraries.length > 0) {
+    lines.push('');
+    lines.push('# Libraries loaded at server start');
+    lines.push(`shared_preload_libraries = '${libraries.join(',')}'`);
+  }
+
+  // pg_cron runs its scheduler in a single database
+  const cron = config.spec.extensions?.find(extension => extension.name === 'pg_cron');
+  if (cron) {
+    lines.push(`cron.database_name = '${cron.database || config.spec.database.name}'`);
+  }
+
+  const archiveDirectory = config.spec.storage.archiveDirectory;
+  if (archiveDirectory) {
+    lines.push('');
+    lines.push('# WAL archiving and point-in-time recovery');
+    lines.push('wal_level = replica');
+    lines.push('archive_mode = on');
+    // The server runs these through the shell after replacing %-escapes
+    const archivedFile = `${quoteShellWord(archiveDirectory.replace(/%/g, '%%'))}/%f`;
+    lines.push(`archive_command = ${quoteSetting(`test ! -f ${archivedFile} && cp "%p" ${archivedFile}`)}`);
+    lines.push(`restore_command = ${quoteSetting(`cp ${archivedFile} "%p"`)}`);
+    lines.push(`include_if_exists = '${RECOVERY_CONF_FILE}'`);
+  }
+
+  // Written last so they win over anything generated above
+  const parameters = Object.entries(config.spec.parameters || {})
+    .filter(([name]) => name.toLowerCase() !== 'shared_preload_libraries');
+  if (parameters.length > 0) {
+    lines.push('');
+    lines.push('# Custom parameters from spec.parameters');
+    for (const [name, value] of parameters) {
+      lines.push(`${name} = ${quoteSetting(String(value))}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function quoteSetting(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteShellWord(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+export function generatePgHbaConf(config: PostgreSQLInstanceConfig): string {
+  const passwordMethod = getPasswordMethod(config);
+  const lines = [
+    '# pg_hba.conf generated by PgForge',
+    '# TYPE  DATABASE        USER            ADDRESS                 METHOD',
+  ];
+
+  const rules = config.spec.security?.authentication?.rules || [];
+  if (rules.length > 0) {
+    lines.push('');
+    lines.push('# Rules from spec.security.authentication.rules');
+    lines.push(...rules.map(formatHbaRule));
+  }
+
+  lines.push('');
+  lines.push(`# Local connections - use ${passwordMethod} for password authentication`);
+  lines.push(...getLocalHbaRules(config).map(formatHbaRule));
+  lines.push('');
+  lines.push('# IPv4 connections');
+  lines.push(...getHostHbaRules(config).map(formatHbaRule));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Every pg_hba.conf rule of an instance in the order the server checks them
+ */
+export function getHbaRules(config: PostgreSQLInstanceConfig): HbaRule[] {
+  return [
+    ...(config.spec.security?.authentication?.rules || []),
+    ...getLocalHbaRules(config),
+    ...getHostHbaRules(config),
+  ];
+}
+
+// Socket connections PgForge itself makes with the owner and superuser passwords
+function getLocalHbaRules(config: PostgreSQLInstanceConfig): HbaRule[] {
+  const method = getPasswordMethod(config);
+  return [
+    { type: 'local', database: 'all', user: 'all', method },
+    { type: 'local', database: 'replication', user: 'all', method },
+  ];
+}
+
+function getHostHbaRules(config: PostgreSQLInstanceConfig): HbaRule[] {
+  const allowedHosts = config.spec.security?.authentication?.allowedHosts || ['127.0.0.1/32'];
+  const method = config.spec.security?.authentication?.method || 'md5';
+
+  // Client certificates are only presented over SSL
+  const type = method === 'cert' ? 'hostssl' : 'host';
+
+  return allowedHosts.map(address => ({ type, database: 'all', user: 'all', address, method }));
+}
+
+export function formatHbaRule(rule: HbaRule): string {
+  const columns = [
+    rule.type.padEnd(7),
+    rule.database.padEnd(15),
+    rule.user.padEnd(15),
+    (rule.address || '').padEnd(23),
+    rule.method,
+  ];
+
+  for (const [name, value] of Object.entries(rule.options || {})) {
+    columns.push(/[\s"#]/.test(value) ? `${name}="${value.replace(/"/g, '""')}"` : `${name}=${value}`);
+  }
+
+  return columns.join(' ');
+}
+
+export interface HbaConnection {
+  user: string;
+  database: string;
+  // Client address; a Unix socket connection when not set
+  address?: string;
+  ssl?: boolean;
+}
+
+/**
+ * The first rule matching a connection, which is the one the server uses,
+ * or null if the connection would be rejected for lack of a rule. Group
+ * membership, samenet and hostnames cannot be checked without the server:
+ * +group only matches the group role itself and the others never match.
+ */
+export function matchHbaRule(rules: HbaRule[], connection: HbaConnection): { rule: HbaRule; index: number } | null {
+  for (const [index, rule] of rules.entries()) {
+    if (matchesConnectionType(rule, connection)
+      && matchesDatabase(rule.database, connection)
+      && matchesUser(rule.user, connection.user)
+      && (rule.type === 'local' || matchesAddress(rule.address || '', connection.address || ''))) {
+      return { rule, index };
+    }
+  }
+
+  return null;
+}
+
+function matchesConnectionType(rule: HbaRule, connection: HbaConnection): boolean {
+  if (!connection.address) {
+    return rule.type === 'local';
+  }
+
+  switch (rule.type) {
+    case 'local':
+      return false;
+    case 'host':
+      return true;
+    case 'hostssl':
+      return connection.ssl === true;
+    case 'hostnossl':
+      return connection.ssl !== true;
+  }
+}
+
+function matchesDatabase(field: string, connection: HbaConnection): boolean {
+  return splitHbaList(field).some(entry => {
+    // Replication connections only match the replication keyword
+    if (connection.database === 'replication') {
+      return entry === 'replication';
+    }
+
+    switch (entry) {
+      case 'all':
+        return true;
+      case 'sameuser':
+      case 'samerole':
+        return connection.database === connection.user;
+      default:
+        return entry === connection.database;
+    }
+  });
+}
+
+function matchesUser(field: string, user: string): boolean {
+  return splitHbaList(field).some(entry => entry === 'all' || entry === user || entry === `+${user}`);
+}
+
+function matchesAddress(field: string, address: string): boolean {
+  if (field === 'all') {
+    return true;
+  }
+  if (field === 'samehost') {
+    return address === '127.0.0.1' || address === '::1';
+  }
+
+  const cidr = parseCidr(field);
+  const family = isIP(address);
+  if (!cidr || family === 0 || cidr.family !== family) {
+    return false;
+  }
+
+  const block = new BlockList();
+  const type = family === 4 ? 'ipv4' : 'ipv6';
+  block.addSubnet(cidr.network, cidr.prefix, type);
+  return block.check(address, type);
+}
+
+function splitHbaList(field: string): string[] {
+  return field.split(',').map(entry => entry.trim().replace(/^"(.*)"$/, '$1')).filter(Boolean);
+}
+
+export interface SettingChange {
+  name: string;
+  before?: string;
+  after?: string;
+  context?: string;
+  action: 'reload' | 'restart';
+}
+
+export interface ConfigPlan {
+  running: boolean;
+  settings: SettingChange[];
+  postgresqlConf: { current: string; desired: string };
+  pgHbaConf: { current: string; desired: string };
+  hbaChanged: boolean;
+  restartRequired: boolean;
+}
+
+// Settings that only change on server start, used when pg_settings cannot be queried
+export const POSTMASTER_SETTINGS = new Set([
+  'archive_mode',
+  'autovacuum_max_workers',
+  'cluster_name',
+  'huge_pages',
+  'listen_addresses',
+  'logging_collector',
+  'max_connections',
+  'max_files_per_process',
+  'max_locks_per_transaction',
+  'max_prepared_transactions',
+  'max_replication_slots',
+  'max_wal_senders',
+  'max_worker_processes',
+  'port',
+  'shared_buffers',
+  'shared_preload_libraries',
+  'superuser_reserved_connections',
+  'track_commit_timestamp',
+  'unix_socket_directories',
+  'unix_socket_group',
+  'unix_socket_permissions',
+  'wal_buffers',
+  'wal_level',
+  'wal_log_hints',
+]);
+
+/**
+ * Parse postgresql.conf into a map of setting names to unquoted values.
+ * Later assignments win, as they do for the server.
+ */
+export function parsePostgreSQLConf(content: string): Record<string, string> {
+  const settings: Record<string, string> = {};
+
+  for (const rawLine of content.split('\n')) {
+    const match = rawLine.match(/^\s*([A-Za-z_][\w.]*)\s*=?\s*('(?:[^']|'')*'|[^#\s]*)/);
+    if (!match || !match[1]) {
+      continue;
+    }
+
+    let value = match[2] || '';
+    if (value.startsWith("'") && value.endsWith("'") && value.length >= 2) {
+      value = value.slice(1, -1).replace(/''/g, "'");
+    }
+
+    settings[match[1].toLowerCase()] = value;
+  }
+
+  return settings;
+}
+
+/**
+ * Settings whose value differs between two postgresql.conf contents
+ */
+export function diffSettings(current: string, desired: string): Array<Omit<SettingChange, 'action' | 'context'>> {
+  const before = parsePostgreSQLConf(current);
+  const after = parsePostgreSQLConf(desired);
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  return names
+    .filter(name => before[name] !== after[name])
+    .map(name => ({ name, before: before[name], after: after[name] }));
+}
+
+/**
+ * Whether a changed setting with the given pg_settings context can be
+ * picked up with a reload
+ */
+export function getSettingAction(name: string, context?: string): SettingChange['action'] {
+  if (context) {
+    return context === 'postmaster' || context === 'internal' ? 'restart' : 'reload';
+  }
+
+  return POSTMASTER_SETTINGS.has(name) ? 'restart' : 'reload';
+}
+
+/**
+ * Outcome of a reload: settings that changed, settings waiting for a
+ * restart, and lines of the configuration files the server rejected
+ */
+export interface ReloadReport {
+  applied: Array<Omit<SettingChange, 'action' | 'context'>>;
+  pendingRestart: Array<{ name: string; setting: string }>;
+  rejected: Array<{ file: string; line?: number; name?: string; error: string }>;
+}
+
+/**
+ * Build a reload report from pg_settings values before and after the
+ * reload, the settings with pending_restart set, and the errors of
+ * pg_file_settings and pg_hba_file_rules
+ */
+export function buildReloadReport(
+  before: Record<string, string>,
+  after: Record<string, string>,
+  pendingRestart: ReloadReport['pendingRestart'],
+  fileErrors: ReloadReport['rejected']
+): ReloadReport {
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const pending = new Set(pendingRestart.map(setting => setting.name));
+
+  return {
+    applied: names
+      .filter(name => before[name] !== after[name])
+      .map(name => ({ name, before: before[name], after: after[name] })),
+    pendingRestart,
+    // pg_file_settings reports settings waiting for a restart as "could not be applied"
+    rejected: fileErrors.filter(error => !error.name || !pending.has(error.name)),
+  };
+}
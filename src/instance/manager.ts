@@ -1,68 +1,208 @@
 import { spawn, exec } from 'child_process';
 import { promisify } from 'util';
-import { randomBytes } from 'crypto';
-import { access, mkdir, writeFile, readFile, readdir, rmdir, unlink, stat } from 'fs/promises';
+import { openSync, closeSync } from 'fs';
+import { access, mkdir, writeFile, readFile, readdir, rmdir, unlink, stat, rename } from 'fs/promises';
 import { join, dirname } from 'path';
 import { ConfigManager } from '../config/manager.js';
 import { ServiceManager } from '../service/manager.js';
-import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import { BackupManager } from '../backup/manager.js';
+import { TlsManager } from '../tls/manager.js';
+import { SecretsManager } from '../secrets/manager.js';
+import { CredentialsManager } from '../credentials/manager.js';
+import { DatabaseManager } from '../database/manager.js';
+import type { DatabaseInfo, RoleInfo } from '../database/manager.js';
+import { ExtensionManager } from '../extension/manager.js';
+import type { InstalledExtension, AvailableExtension } from '../extension/manager.js';
+import type { CredentialFormat } from '../credentials/manager.js';
+import type { CertificateFiles } from '../tls/manager.js';
+import { findPostgreSQLBinary, runPsql, describePostgreSQLConfig, quoteIdentifier, quoteLiteral, readPostmasterPid, isServerReady } from '../utils/postgres.js';
+import type { ParameterDefinition, PsqlOptions } from '../utils/postgres.js';
+import { suggestAvailablePort, validateInstanceConfig, validateParameters, isValidInstanceName, isValidUserName } from '../utils/validation.js';
+import { parseRetention } from '../utils/schedule.js';
+import { generateSecurePassword, encryptPassword, scramSha256Verifier } from '../utils/password.js';
+import { generatePostgreSQLConf, generatePgHbaConf, diffSettings, getSettingAction, getSharedPreloadLibraries, getPasswordMethod, getHbaRules, matchHbaRule, formatHbaRule, buildReloadReport, PRELOAD_EXTENSIONS, RECOVERY_CONF_FILE } from './conf.js';
+import type { ConfigPlan, HbaConnection, ReloadReport } from './conf.js';
+import { inspectInstance, applyObservedState } from './state.js';
+import { LockManager } from '../lock/manager.js';
+import { diffObjects } from '../utils/diff.js';
+import { calculateTuning, detectHardware, parseMemorySize } from '../utils/tuning.js';
+import type { Workload, HardwareProfile, PerformanceSettings } from '../utils/tuning.js';
+import type { ValueChange } from '../utils/diff.js';
+import type { PostgreSQLInstanceConfig, BackupCatalogEntry, DatabaseSpec, RoleSpec, RolePrivilege, ExtensionSpec } from '../config/types.js';
 
 const execAsync = promisify(exec);
 
+// Seconds start waits for the server to accept connections
+export const DEFAULT_START_TIMEOUT = 60;
+
+// Log lines quoted in the error when startup fails
+const STARTUP_LOG_LINES = 20;
+
+export type ShutdownMode = 'smart' | 'fast' | 'immediate';
+
+export const SHUTDOWN_MODES: ShutdownMode[] = ['smart', 'fast', 'immediate'];
+
+// Signals the postmaster maps to each shutdown mode
+const SHUTDOWN_SIGNALS: Record<ShutdownMode, NodeJS.Signals> = {
+  smart: 'SIGTERM',
+  fast: 'SIGINT',
+  immediate: 'SIGQUIT',
+};
+
+// Seconds stop waits for the postmaster to exit
+export const DEFAULT_STOP_TIMEOUT = 60;
+
+export interface StopOptions {
+  mode?: ShutdownMode;
+  timeout?: number;
+  // SIGKILL the postmaster when it outlives the timeout
+  force?: boolean;
+}
+
 export class InstanceManager {
   private configManager: ConfigManager;
   private serviceManager: ServiceManager;
+  private backupManager: BackupManager;
+  private tlsManager: TlsManager;
+  private secretsManager: SecretsManager;
+  private credentialsManager: CredentialsManager;
+  private databaseManager: DatabaseManager;
+  private extensionManager: ExtensionManager;
+  private lockManager: LockManager;
 
   constructor() {
     this.configManager = new ConfigManager();
     this.serviceManager = new ServiceManager();
+    this.backupManager = new BackupManager();
+    this.tlsManager = new TlsManager();
+    this.secretsManager = new SecretsManager();
+    this.credentialsManager = new CredentialsManager();
+    this.databaseManager = new DatabaseManager();
+    this.extensionManager = new ExtensionManager();
+    this.lockManager = new LockManager();
   }
 
   async createInstance(
-    name: string, 
+    name: string | undefined, 
     options: {
       template?: string;
       port?: number;
       version?: string;
       file?: string;
+      autoTune?: Workload | boolean;
     } = {}
   ): Promise<PostgreSQLInstanceConfig> {
     
-    console.log(`Creating PostgreSQL instance '${name}'...`);
-    
     let config: PostgreSQLInstanceConfig;
 
     if (options.file) {
-      // Load from file
+      // Load from manifest, with CLI options taking precedence
       console.log(`Loading configuration from file: ${options.file}`);
-      const content = await readFile(options.file, 'utf-8');
-      config = JSON.parse(content); // Assume YAML is parsed already
-      config.metadata.name = name || config.metadata.name;
+      const manifest = await this.configManager.loadInstanceManifest(options.file);
+      const instanceName = name || manifest.metadata?.name;
+      if (!instanceName) {
+        throw new Error('Instance name is required. Pass it as an argument or set metadata.name in the manifest');
+      }
+
+      config = await this.configManager.createInstanceConfig(instanceName, { template: options.template });
+      this.configManager.applyManifest(config, manifest);
+      config.metadata.name = instanceName;
+
+      if (options.port) {
+        config.spec.network.port = options.port;
+      }
+      if (options.version) {
+        config.spec.version = options.version;
+      }
     } else {
+      if (!name) {
+        throw new Error('Instance name is required');
+      }
+
       // Create new config
       console.log('Creating new instance configuration...');
-      config = this.configManager.createInstanceConfig(name, options);
+      config = await this.configManager.createInstanceConfig(name, options);
+    }
+
+    name = config.metadata.name;
+    // The name becomes the lock file name, so it is checked before the lock
+    // is taken rather than with the rest of the spec
+    if (!isValidInstanceName(name)) {
+      throw new Error('Instance name must contain only lowercase letters, numbers, and hyphens');
     }
+    return this.lockManager.withLock(name, 'create', async () => {
+      console.log(`Creating PostgreSQL instance '${name}'...`);
+
+      if (options.autoTune) {
+        const workload = typeof options.autoTune === 'string' ? options.autoTune : getDefaultWorkload(config);
+        console.log(`Tuning for a ${workload} workload on this machine...`);
+        config.spec.performance = {
+          ...config.spec.performance,
+          ...(await this.recommendTuning(config, workload)).settings,
+        };
+      }
+
+      // Validate before anything is written to disk
+      await this.validateConfig(config);
+
+      console.log(`Instance configuration:`);
+      console.log(`  Name: ${config.metadata.name}`);
+      console.log(`  Version: ${config.spec.version}`);
+      console.log(`  Port: ${config.spec.network.port}`);
+      console.log(`  Data directory: ${config.spec.storage.dataDirectory}`);
+
+      // Check if instance already exists
+      const existing = await this.configManager.getInstanceConfig(name);
+      if (existing) {
+        throw new Error(`Instance '${name}' already exists`);
+      }
+
+      // Check if port is available  
+      console.log(`Checking if port ${config.spec.network.port} is available...`);
+      const isPortFree = await this.isPortAvailable(config.spec.network.port);
+      if (!isPortFree) {
+        throw new Error(`Port ${config.spec.network.port} is already in use`);
+      }
 
-    console.log(`Instance configuration:`);
-    console.log(`  Name: ${config.metadata.name}`);
-    console.log(`  Version: ${config.spec.version}`);
-    console.log(`  Port: ${config.spec.network.port}`);
-    console.log(`  Data directory: ${config.spec.storage.dataDirectory}`);
+      await this.provisionInstance(config);
 
-    // Check if instance already exists
-    const existing = await this.configManager.getInstanceConfig(name);
-    if (existing) {
-      throw new Error(`Instance '${name}' already exists`);
+      console.log(`PostgreSQL instance '${name}' created successfully!`);
+      return config;
+    });
+  }
+
+  /**
+   * Validate a spec, including spec.parameters against the settings the
+   * target PostgreSQL version supports
+   */
+  private async validateConfig(config: PostgreSQLInstanceConfig): Promise<void> {
+    const errors = validateInstanceConfig(config);
+
+    if (errors.length === 0 && config.spec.parameters && Object.keys(config.spec.parameters).length > 0) {
+      let definitions: Map<string, ParameterDefinition> | null = null;
+      try {
+        definitions = await describePostgreSQLConfig(config.spec.version);
+      } catch {
+        console.log(`Warning: could not list parameters of PostgreSQL ${config.spec.version}, spec.parameters will be checked by the server`);
+      }
+      if (definitions) {
+        errors.push(...validateParameters(config.spec.parameters, definitions));
+      }
     }
 
-    // Check if port is available  
-    console.log(`Checking if port ${config.spec.network.port} is available...`);
-    const isPortFree = await this.isPortAvailable(config.spec.network.port);
-    if (!isPortFree) {
-      throw new Error(`Port ${config.spec.network.port} is already in use`);
+    if (errors.length > 0) {
+      throw new Error(
+        'Configuration validation failed:\n' +
+        errors.map(error => `  ${error.field}: ${error.message}`).join('\n')
+      );
     }
+  }
 
+  /**
+   * Lay down directories, cluster, database, configuration files and the
+   * instance manifest for a fully populated configuration
+   */
+  private async provisionInstance(config: PostgreSQLInstanceConfig): Promise<void> {
     // Create directories
     console.log('Creating instance directories...');
     await this.createInstanceDirectories(config);
@@ -77,6 +217,10 @@ export class InstanceManager {
     // Create database and user with password
     await this.createDatabaseAndUser(config);
 
+    // Issue a server certificate when SSL is on without certificate paths
+    await this.tlsManager.ensureServerCertificate(config);
+    await this.checkSharedLibraries(config);
+
     // Generate configuration files
     console.log('Generating PostgreSQL configuration files...');
     await this.generateConfigFiles(config);
@@ -84,78 +228,203 @@ export class InstanceManager {
     // Save instance configuration
     console.log('Saving instance configuration...');
     await this.configManager.saveInstanceConfig(config);
+  }
 
-    console.log(`PostgreSQL instance '${name}' created successfully!`);
-    return config;
+  async startInstance(name: string, options: { timeout?: number } = {}): Promise<void> {
+    return this.lockManager.withLock(name, 'start', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      await this.startServer(config, options);
+    });
   }
 
-  async startInstance(name: string): Promise<void> {
-    const config = await this.configManager.getInstanceConfig(name);
-    if (!config) {
-      throw new Error(`Instance '${name}' not found`);
+  /**
+   * Start the postmaster directly, or through its systemd unit when
+   * useUserService is given, and wait until it accepts connections
+   */
+  private async startServer(config: PostgreSQLInstanceConfig, options: { timeout?: number }, useUserService?: boolean): Promise<void> {
+    const name = config.metadata.name;
+    const observed = await inspectInstance(config);
+    if (observed.state === 'running') {
+      throw new Error(`Instance '${name}' is already running (PID ${observed.pid})`);
     }
-
-    if (config.status?.state === 'running') {
-      throw new Error(`Instance '${name}' is already running`);
+    if (observed.state === 'starting' || observed.state === 'stopping') {
+      throw new Error(`Instance '${name}' is ${observed.state} (PID ${observed.pid})`);
     }
 
     // Check if PostgreSQL is installed
     await this.checkPostgreSQLInstalled(config.spec.version);
 
+    // Instances created with SSL on but no certificate would fail to start
+    if (await this.tlsManager.ensureServerCertificate(config)) {
+      await this.generateConfigFiles(config);
+      await this.configManager.saveInstanceConfig(config);
+    }
+
+    const timeout = options.timeout ?? DEFAULT_START_TIMEOUT;
+    const startTime = new Date();
+    const deadline = startTime.getTime() + timeout * 1000;
+
     // Start PostgreSQL process
-    const pid = await this.startPostgreSQLProcess(config);
+    let pid: number;
+    if (useUserService === undefined) {
+      pid = await this.startPostgreSQLProcess(config);
+    } else {
+      // Only queued: a Type=notify start would block until systemd's own timeout
+      await this.serviceManager.startService(name, useUserService, { wait: false });
+      pid = await this.waitForServicePostmaster(config, useUserService, deadline);
+    }
 
-    // Update status
+    // Recorded before waiting so a slow start can still be stopped
     config.status = {
-      state: 'running',
+      state: 'starting',
       pid,
-      startTime: new Date().toISOString(),
+      startTime: startTime.toISOString(),
       version: config.spec.version,
       connections: 0,
     };
+    await this.configManager.saveInstanceConfig(config);
+
+    try {
+      await this.waitForStartup(config, pid, startTime, Math.max(1, Math.ceil((deadline - Date.now()) / 1000)));
+    } catch (error) {
+      if (!(await this.isProcessRunning(pid))) {
+        config.status = {
+          state: 'error',
+          message: useUserService === undefined
+            ? `PostgreSQL exited during startup; see ${this.getStartupLogPath(config)}`
+            : 'PostgreSQL exited during startup; see the journal of its service',
+          version: config.spec.version,
+          connections: 0,
+        };
+        await this.configManager.saveInstanceConfig(config);
+      }
+      throw error;
+    }
 
+    config.status = applyObservedState(config.status, await inspectInstance(config), config.spec.version);
+    if (useUserService !== undefined) {
+      config.status.service = await this.serviceManager.getServiceStatus(name, useUserService);
+    }
     await this.configManager.saveInstanceConfig(config);
   }
 
-  async stopInstance(name: string): Promise<void> {
-    const config = await this.configManager.getInstanceConfig(name);
-    if (!config) {
-      throw new Error(`Instance '${name}' not found`);
+  /**
+   * Wait for the postmaster a service start spawns to write postmaster.pid,
+   * and return its PID
+   */
+  private async waitForServicePostmaster(config: PostgreSQLInstanceConfig, useUserService: boolean, deadline: number): Promise<number> {
+    const name = config.metadata.name;
+
+    while (true) {
+      const observed = await inspectInstance(config);
+      if (observed.pid && observed.state !== 'error') {
+        return observed.pid;
+      }
+
+      const service = await this.serviceManager.getServiceStatus(name, useUserService);
+      if (service.status === 'failed') {
+        throw new Error(`The service of '${name}' failed to start; see its journal`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`The service of '${name}' did not start PostgreSQL in time (service ${service.status})`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
+  }
 
-    if (config.status?.state !== 'running') {
+  /**
+   * Stop the postmaster with the given shutdown mode, fast by default. Fails
+   * when it is still running after the timeout, unless force is set.
+   */
+  async stopInstance(name: string, options: StopOptions = {}): Promise<void> {
+    return this.lockManager.withLock(name, 'stop', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      await this.stopServer(config, options);
+    });
+  }
+
+  /**
+   * Shut the postmaster down, signalling it directly or through its systemd
+   * unit when useUserService is given
+   */
+  private async stopServer(config: PostgreSQLInstanceConfig, options: StopOptions, useUserService?: boolean): Promise<void> {
+    const name = config.metadata.name;
+
+    // The postmaster may have been started outside PgForge or have died
+    const observed = await inspectInstance(config);
+    if (!observed.pid) {
+      config.status = applyObservedState(config.status, observed, config.spec.version);
+      await this.configManager.saveInstanceConfig(config);
       throw new Error(`Instance '${name}' is not running`);
     }
 
-    if (config.status?.pid) {
-      // Stop PostgreSQL process gracefully
-      await this.stopPostgreSQLProcess(config.status.pid);
+    const mode = options.mode || 'fast';
+    if (mode === 'fast' && observed.state === 'running') {
+      await this.checkpoint(config);
     }
 
-    // Update status
-    config.status = {
-      state: 'stopped',
-      lastRestart: config.status?.startTime,
-      version: config.spec.version,
-      connections: 0,
-    };
-
+    config.status = applyObservedState(config.status, { ...observed, state: 'stopping' }, config.spec.version);
     await this.configManager.saveInstanceConfig(config);
-  }
 
-  async restartInstance(name: string): Promise<void> {
-    const config = await this.configManager.getInstanceConfig(name);
-    if (!config) {
-      throw new Error(`Instance '${name}' not found`);
+    let sendSignal: ((signal: NodeJS.Signals) => Promise<void>) | undefined;
+    if (useUserService !== undefined) {
+      // Queued first so systemd treats the exit as a stop and does not apply
+      // the restart policy. Its ExecStop sends a smart shutdown, which the
+      // postmaster lets a faster mode override.
+      await this.serviceManager.stopService(name, useUserService, { wait: false });
+      sendSignal = signal => this.serviceManager.killService(name, signal, useUserService, signal === 'SIGKILL' ? 'all' : 'main');
     }
 
-    if (config.status?.state === 'running') {
-      await this.stopInstanceWithService(name);
-      // Wait a moment for cleanup
-      await new Promise(resolve => setTimeout(resolve, 2000));
+    try {
+      await this.stopPostgreSQLProcess(observed.pid, mode, options.timeout ?? DEFAULT_STOP_TIMEOUT, options.force, sendSignal);
+    } finally {
+      config.status = applyObservedState(config.status, await inspectInstance(config), config.spec.version);
+      if (useUserService !== undefined) {
+        config.status.service = await this.serviceManager.getServiceStatus(name, useUserService);
+      }
+      await this.configManager.saveInstanceConfig(config);
+    }
+  }
+
+  /**
+   * Flush dirty buffers while clients are still connected, so the shutdown
+   * checkpoint of a fast shutdown has little left to write
+   */
+  private async checkpoint(config: PostgreSQLInstanceConfig): Promise<void> {
+    try {
+      const admin = await this.secretsManager.getAdminConnection(config);
+      await runPsql(config, 'CHECKPOINT', admin);
+    } catch (error) {
+      console.warn(`Warning: Could not run a checkpoint before shutdown: ${error instanceof Error ? error.message : String(error)}`);
     }
+  }
+
+  /**
+   * Stop the instance if it runs and start it again; the timeout applies to
+   * each of the two steps
+   */
+  async restartInstance(name: string, options: StopOptions = {}): Promise<void> {
+    return this.lockManager.withLock(name, 'restart', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
 
-    await this.startInstanceWithService(name);
+      if (config.status?.state === 'running') {
+        await this.stopInstanceWithService(name, false, options);
+      }
+
+      await this.startInstanceWithService(name, false, options);
+    });
   }
 
   async getInstanceStatus(name: string): Promise<PostgreSQLInstanceConfig | null> {
@@ -164,42 +433,12 @@ export class InstanceManager {
       return null;
     }
 
-    // Check if process is actually running
-    if (config.status?.pid) {
-      const isRunning = await this.isProcessRunning(config.status.pid);
-      if (!isRunning && config.status?.state === 'running') {
-        // Process died, update status
-        config.status!.state = 'stopped';
-        await this.configManager.saveInstanceConfig(config);
-      }
-    }
+    await this.refreshStatus(config);
 
     // Check service status if service is enabled
     if (config.spec.service?.enabled && await this.serviceManager.isSystemdAvailable()) {
       try {
-        const serviceStatus = await this.serviceManager.getServiceStatus(name, false);
-        
-        // Update config with service status
-        if (!config.status) {
-          config.status = {
-            state: 'stopped',
-            version: config.spec.version,
-            connections: 0,
-          };
-        }
-        config.status.service = serviceStatus;
-        
-        // If service is active but config shows stopped, update it
-        if (serviceStatus.active && config.status.state === 'stopped') {
-          config.status.state = 'running';
-          config.status.startTime = new Date().toISOString();
-        } else if (!serviceStatus.active && config.status.state === 'running') {
-          config.status.state = 'stopped';
-          config.status.lastRestart = config.status.startTime;
-          config.status.startTime = undefined;
-        }
-        
-        await this.configManager.saveInstanceConfig(config);
+        config.status!.service = await this.serviceManager.getServiceStatus(name, false);
       } catch (error) {
         // Service status check failed, don't fail the whole operation
         console.warn(`Warning: Could not check service status for '${name}': ${error}`);
@@ -209,6 +448,50 @@ export class InstanceManager {
     return config;
   }
 
+  /**
+   * Repair the recorded status of one instance, or every instance, from
+   * postmaster.pid and the process table
+   */
+  async reconcileInstances(name?: string): Promise<{ name: string; previous?: string; current: string; message?: string }[]> {
+    const names = name ? [name] : await this.configManager.listInstances();
+    const results: { name: string; previous?: string; current: string; message?: string }[] = [];
+
+    for (const instanceName of names) {
+      const config = await this.configManager.getInstanceConfig(instanceName);
+      if (!config) {
+        throw new Error(`Instance '${instanceName}' not found`);
+      }
+
+      const previous = config.status?.state;
+      await this.refreshStatus(config);
+      results.push({ name: instanceName, previous, current: config.status!.state, message: config.status!.message });
+    }
+
+    return results;
+  }
+
+  /**
+   * Record the observed state in config.status, saving only when it changed.
+   * While another process is changing the instance the status is left for
+   * it to record.
+   */
+  private async refreshStatus(config: PostgreSQLInstanceConfig): Promise<void> {
+    const status = applyObservedState(config.status, await inspectInstance(config), config.spec.version);
+    if (JSON.stringify(status) === JSON.stringify(config.status)) {
+      return;
+    }
+
+    config.status = status;
+    await this.lockManager.tryWithLock(config.metadata.name, 'status', async () => {
+      // Reread so only the status is written over what is on disk now
+      const current = await this.configManager.getInstanceConfig(config.metadata.name);
+      if (current) {
+        current.status = status;
+        await this.configManager.saveInstanceConfig(current);
+      }
+    });
+  }
+
   async listInstances(): Promise<PostgreSQLInstanceConfig[]> {
     const names = await this.configManager.listInstances();
     const instances: PostgreSQLInstanceConfig[] = [];
@@ -224,43 +507,58 @@ export class InstanceManager {
   }
 
   async removeInstance(name: string, options: { backup?: boolean; force?: boolean } = {}): Promise<void> {
-    const config = await this.configManager.getInstanceConfig(name);
-    if (!config) {
-      throw new Error(`Instance '${name}' not found`);
-    }
+    return this.lockManager.withLock(name, 'remove', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
 
-    // Stop instance if running
-    if (config.status?.state === 'running') {
-      if (!options.force) {
+      if (config.status?.state === 'running' && !options.force) {
         throw new Error(`Instance '${name}' is running. Stop it first or use --force`);
       }
-      await this.stopInstance(name);
-    }
 
-    // Create backup if requested
-    if (options.backup) {
-      await this.createBackup(config);
-    }
+      // Create backup if requested (while the instance can still be dumped)
+      if (options.backup) {
+        await this.createBackup(name);
+      }
+
+      // Stop instance if running
+      if (config.status?.state === 'running') {
+        await this.stopInstance(name);
+      }
+
+      // Remove configuration
+      await this.configManager.deleteInstance(name);
 
-    // Remove configuration
-    await this.configManager.deleteInstance(name);
+      // TODO: Remove data directories (be careful!)
+      console.log(`Note: Data directories for '${name}' were not removed. Remove manually if needed:`);
+      console.log(`  Data: ${config.spec.storage.dataDirectory}`);
+      console.log(`  Logs: ${config.spec.storage.logDirectory}`);
 
-    // TODO: Remove data directories (be careful!)
-    console.log(`Note: Data directories for '${name}' were not removed. Remove manually if needed:`);
-    console.log(`  Data: ${config.spec.storage.dataDirectory}`);
-    console.log(`  Logs: ${config.spec.storage.logDirectory}`);
+      // The passwords still unlock the data directory that was left behind
+      const secretRefs = [config.spec.database.passwordRef, config.spec.database.superuserPasswordRef].filter(Boolean);
+      if (secretRefs.length > 0) {
+        console.log(`  Secrets: ${secretRefs.join(', ')}`);
+      }
+    });
   }
 
   private async createDatabaseAndUser(config: PostgreSQLInstanceConfig): Promise<void> {
     console.log('Creating database and user with password...');
-    
-    // Generate a secure password for the database user
-    const password = this.generateSecurePassword();
-    config.spec.database.password = password;
+    const name = config.metadata.name;
+
+    // A manifest may reference an existing secret or carry a password to
+    // import; otherwise generate one. Only the reference is kept in the spec.
+    const password = config.spec.database.passwordRef
+      ? await this.secretsManager.resolve(config.spec.database.passwordRef)
+      : config.spec.database.password || generateSecurePassword();
+    if (!config.spec.database.passwordRef) {
+      config.spec.database.passwordRef = await this.secretsManager.store(this.secretsManager.getSecretKey(name, 'owner'), password);
+    }
+    delete config.spec.database.password;
 
     // Start PostgreSQL temporarily to create database and user
-    const postgresPath = await this.findPostgreSQLBinary('postgres', config.spec.version);
-    const psqlPath = await this.findPostgreSQLBinary('psql', config.spec.version);
+    const postgresPath = await findPostgreSQLBinary('postgres', config.spec.version);
     
     console.log(`Starting temporary PostgreSQL instance on port ${config.spec.network.port}...`);
     console.log(`PostgreSQL binary: ${postgresPath}`);
@@ -273,6 +571,8 @@ export class InstanceManager {
       '-p', config.spec.network.port.toString(),
       '-c', `listen_addresses=${config.spec.network.bindAddress}`,
       '-c', `unix_socket_directories=${socketDirectory}`,
+      // postgresql.conf is written later, so hash the initial passwords as configured
+      '-c', `password_encryption=${getPasswordMethod(config)}`,
     ], {
       detached: false,
       stdio: ['ignore', 'pipe', 'pipe'], // Capture stdout and stderr for debugging
@@ -301,24 +601,26 @@ export class InstanceManager {
 
       // First, set a password for the postgres superuser
       console.log('Setting password for postgres superuser...');
-      const postgresPassword = this.generateSecurePassword();
-      await this.execAsyncWithLogging(`${psqlPath} -h "${socketDirectory}" -p ${config.spec.network.port} -U postgres -d postgres -c "ALTER USER postgres PASSWORD '${postgresPassword}'"`);
+      // Stored before it is set so it cannot be lost if storing fails
+      const postgresPassword = generateSecurePassword();
+      config.spec.database.superuserPasswordRef = await this.secretsManager.store(this.secretsManager.getSecretKey(name, 'postgres'), postgresPassword);
+      await runPsql(config, `ALTER USER postgres PASSWORD ${quoteLiteral(encryptPassword(postgresPassword, 'postgres', getPasswordMethod(config)))}`);
 
       // Create the database
       console.log(`Creating database: ${config.spec.database.name}`);
-      await this.execAsyncWithLogging(`${psqlPath} -h "${socketDirectory}" -p ${config.spec.network.port} -U postgres -d postgres -c "CREATE DATABASE \\"${config.spec.database.name}\\""`);
+      await runPsql(config, `CREATE DATABASE ${quoteIdentifier(config.spec.database.name)}`);
 
       // Create the user with password
       console.log(`Creating user: ${config.spec.database.owner}`);
-      await this.execAsyncWithLogging(`${psqlPath} -h "${socketDirectory}" -p ${config.spec.network.port} -U postgres -d postgres -c "CREATE USER \\"${config.spec.database.owner}\\" WITH PASSWORD '${password}'"`);
+      await runPsql(config, `CREATE USER ${quoteIdentifier(config.spec.database.owner)} WITH PASSWORD ${quoteLiteral(encryptPassword(password, config.spec.database.owner, getPasswordMethod(config)))}`);
 
       // Grant privileges to the user on the database
       console.log(`Granting database privileges...`);
-      await this.execAsyncWithLogging(`${psqlPath} -h "${socketDirectory}" -p ${config.spec.network.port} -U postgres -d postgres -c "GRANT ALL PRIVILEGES ON DATABASE \\"${config.spec.database.name}\\" TO \\"${config.spec.database.owner}\\""`);
+      await runPsql(config, `GRANT ALL PRIVILEGES ON DATABASE ${quoteIdentifier(config.spec.database.name)} TO ${quoteIdentifier(config.spec.database.owner)}`);
 
       // Grant the user permission to create schemas in the database
       console.log(`Granting schema creation privileges...`);
-      await this.execAsyncWithLogging(`${psqlPath} -h "${socketDirectory}" -p ${config.spec.network.port} -U postgres -d "${config.spec.database.name}" -c "GRANT CREATE ON SCHEMA public TO \\"${config.spec.database.owner}\\""`);
+      await runPsql(config, `GRANT CREATE ON SCHEMA public TO ${quoteIdentifier(config.spec.database.owner)}`, { database: config.spec.database.name });
 
       console.log('Database and user created successfully');
 
@@ -378,26 +680,8 @@ export class InstanceManager {
     }
   }
 
-  private generateSecurePassword(length: number = 16): string {
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let password = '';
-    
-    // Use crypto.randomBytes for cryptographically secure random generation
-    const bytes = randomBytes(length);
-    
-    for (let i = 0; i < length; i++) {
-      const byte = bytes[i];
-      if (byte === undefined) {
-        throw new Error('Failed to generate secure random bytes');
-      }
-      password += characters[byte % characters.length];
-    }
-    
-    return password;
-  }
-
   private async waitForPostgreSQLReady(port: number, version: string, socketDirectory: string, maxAttempts: number = 30): Promise<void> {
-    const psqlPath = await this.findPostgreSQLBinary('psql', version);
+    const psqlPath = await findPostgreSQLBinary('psql', version);
     let lastError: any = null;
     
     console.log(`Waiting for PostgreSQL to become ready on port ${port}...`);
@@ -475,21 +759,28 @@ export class InstanceManager {
   private async initializeDatabase(config: PostgreSQLInstanceConfig): Promise<void> {
     console.log('Initializing PostgreSQL database...');
     
-    const initdbPath = await this.findPostgreSQLBinary('initdb', config.spec.version);
+    const initdbPath = await findPostgreSQLBinary('initdb', config.spec.version);
     console.log(`Using initdb binary: ${initdbPath}`);
     
     // Check if data directory exists and is not empty
     await this.ensureDataDirectoryIsEmpty(config.spec.storage.dataDirectory);
     
-    const command = [
+    const args = [
       initdbPath,
       '-D', config.spec.storage.dataDirectory,
       '--username=postgres',
       '--auth-local=trust',
-      '--auth-host=md5',
+      `--auth-host=${getPasswordMethod(config)}`,
       `--encoding=${config.spec.database.encoding}`,
       `--locale=${config.spec.database.locale}`,
-    ].join(' ');
+    ];
+
+    // Keep WAL on a separate volume when requested
+    if (config.spec.storage.walDirectory) {
+      args.push(`--waldir=${config.spec.storage.walDirectory}`);
+    }
+
+    const command = args.join(' ');
 
     try {
       console.log(`Initializing database cluster in: ${config.spec.storage.dataDirectory}`);
@@ -628,143 +919,194 @@ export class InstanceManager {
     const hbaPath = join(config.spec.storage.dataDirectory, 'pg_hba.conf');
 
     // Generate postgresql.conf
-    const postgresqlConf = this.generatePostgreSQLConf(config);
+    const postgresqlConf = generatePostgreSQLConf(config);
     await writeFile(configPath, postgresqlConf, 'utf-8');
 
     // Generate pg_hba.conf
-    const pgHbaConf = this.generatePgHbaConf(config);
+    const pgHbaConf = generatePgHbaConf(config);
     await writeFile(hbaPath, pgHbaConf, 'utf-8');
   }
 
-  private generatePostgreSQLConf(config: PostgreSQLInstanceConfig): string {
-    // Create socket directory path within the instance data directory
-    const socketDirectory = join(config.spec.storage.dataDirectory, 'sockets');
+  private async startPostgreSQLProcess(config: PostgreSQLInstanceConfig): Promise<number> {
+    console.log('Starting PostgreSQL process...');
+    
+    const postgresPath = await findPostgreSQLBinary('postgres', config.spec.version);
+    console.log(`Using PostgreSQL binary: ${postgresPath}`);
     
-    const lines = [
-      '# PostgreSQL configuration generated by PgForge',
-      `port = ${config.spec.network.port}`,
-      `listen_addresses = '${config.spec.network.bindAddress}'`,
-      `max_connections = ${config.spec.network.maxConnections}`,
-      '',
-      '# Socket configuration - avoid system permission issues',
-      `unix_socket_directories = '${socketDirectory}'`,
-      '',
-      '# Performance settings',
+    const args = [
+      '-D', config.spec.storage.dataDirectory,
     ];
 
-    if (config.spec.performance?.sharedBuffers) {
-      lines.push(`shared_buffers = '${config.spec.performance.sharedBuffers}'`);
-    }
-    if (config.spec.performance?.effectiveCacheSize) {
-      lines.push(`effective_cache_size = '${config.spec.performance.effectiveCacheSize}'`);
-    }
-    if (config.spec.performance?.workMem) {
-      lines.push(`work_mem = '${config.spec.performance.workMem}'`);
-    }
-    if (config.spec.performance?.maintenanceWorkMem) {
-      lines.push(`maintenance_work_mem = '${config.spec.performance.maintenanceWorkMem}'`);
+    console.log(`Starting PostgreSQL with args: ${args.join(' ')}`);
+
+    // Output written before the logging collector takes over, which is
+    // where configuration and permission errors end up
+    const startupLog = this.getStartupLogPath(config);
+    await mkdir(dirname(startupLog), { recursive: true });
+    const logFd = openSync(startupLog, 'w', 0o600);
+
+    let child;
+    try {
+      child = spawn(postgresPath, args, {
+        detached: true,
+        stdio: ['ignore', logFd, logFd],
+      });
+    } finally {
+      closeSync(logFd);
     }
 
-    lines.push('');
-    lines.push('# Logging');
-    lines.push(`log_directory = '${config.spec.storage.logDirectory}'`);
-    lines.push("log_filename = 'postgresql-%Y-%m-%d_%H%M%S.log'");
-    lines.push('logging_collector = on');
+    child.on('error', () => {
+      // Reported below through the missing PID
+    });
+    child.unref();
 
-    if (config.spec.security?.ssl?.enabled) {
-      lines.push('');
-      lines.push('# SSL Configuration');
-      lines.push('ssl = on');
+    if (!child.pid) {
+      throw new Error('Failed to start PostgreSQL process: No PID assigned');
     }
 
-    return lines.join('\n') + '\n';
+    console.log(`PostgreSQL process spawned with PID: ${child.pid}`);
+    return child.pid;
   }
 
-  private generatePgHbaConf(config: PostgreSQLInstanceConfig): string {
-    const lines = [
-      '# pg_hba.conf generated by PgForge',
-      '# TYPE  DATABASE        USER            ADDRESS                 METHOD',
-      '',
-      '# Local connections - use md5 for password authentication',
-      'local   all             all                                     md5',
-      '',
-      '# IPv4 connections',
-    ];
+  /**
+   * Wait until the postmaster reports itself ready in postmaster.pid, or
+   * answers pg_isready on servers that do not write a status line. Fails
+   * with the end of the startup log when the process exits or the timeout
+   * passes.
+   */
+  private async waitForStartup(config: PostgreSQLInstanceConfig, pid: number, startTime: Date, timeout: number): Promise<void> {
+    const deadline = Date.now() + timeout * 1000;
+
+    while (true) {
+      if (!(await this.isProcessRunning(pid))) {
+        throw new Error(`PostgreSQL process ${pid} exited during startup${await this.getStartupLogTail(config, startTime)}`);
+      }
+
+      const postmaster = await readPostmasterPid(config.spec.storage.dataDirectory);
+      if (postmaster?.pid === pid) {
+        if (postmaster.status === 'ready' || postmaster.status === 'standby') {
+          console.log(`PostgreSQL process ${pid} is ready`);
+          return;
+        }
+        if (!postmaster.status && await isServerReady(config)) {
+          console.log(`PostgreSQL process ${pid} is accepting connections`);
+          return;
+        }
+      }
 
-    const allowedHosts = config.spec.security?.authentication?.allowedHosts || ['127.0.0.1/32'];
-    const method = config.spec.security?.authentication?.method || 'md5';
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `PostgreSQL process ${pid} did not become ready within ${timeout}s; it may still be starting, or use "pgforge stop ${config.metadata.name}"` +
+          await this.getStartupLogTail(config, startTime)
+        );
+      }
 
-    for (const host of allowedHosts) {
-      lines.push(`host    all             all             ${host}                 ${method}`);
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
+  }
 
-    return lines.join('\n') + '\n';
+  private getStartupLogPath(config: PostgreSQLInstanceConfig): string {
+    return join(config.spec.storage.logDirectory, 'startup.log');
   }
 
-  private async startPostgreSQLProcess(config: PostgreSQLInstanceConfig): Promise<number> {
-    console.log('Starting PostgreSQL process...');
-    
-    const postgresPath = await this.findPostgreSQLBinary('postgres', config.spec.version);
-    console.log(`Using PostgreSQL binary: ${postgresPath}`);
-    
-    const args = [
-      '-D', config.spec.storage.dataDirectory,
-    ];
+  /**
+   * Last lines of the startup log, followed by those of the logging
+   * collector file written since startTime, formatted for an error message
+   */
+  private async getStartupLogTail(config: PostgreSQLInstanceConfig, startTime: Date): Promise<string> {
+    const startupLog = this.getStartupLogPath(config);
+    const lines: string[] = [];
 
-    console.log(`Starting PostgreSQL with args: ${args.join(' ')}`);
+    try {
+      lines.push(...(await readFile(startupLog, 'utf8')).split('\n').filter(Boolean));
+    } catch {
+      // Nothing was written
+    }
 
-    const child = spawn(postgresPath, args, {
-      detached: true,
-      stdio: 'ignore',
-    });
+    try {
+      const logDirectory = config.spec.storage.logDirectory;
+      const candidates: { path: string; mtime: number }[] = [];
+      for (const file of await readdir(logDirectory)) {
+        if (!/^postgresql-.*\.log$/.test(file)) {
+          continue;
+        }
+        const path = join(logDirectory, file);
+        const mtime = (await stat(path)).mtimeMs;
+        if (mtime >= startTime.getTime() - 1000) {
+          candidates.push({ path, mtime });
+        }
+      }
 
-    child.unref();
+      const latest = candidates.sort((a, b) => b.mtime - a.mtime)[0];
+      if (latest) {
+        lines.push(...(await readFile(latest.path, 'utf8')).split('\n').filter(Boolean));
+      }
+    } catch {
+      // Log directory missing or unreadable
+    }
 
-    console.log(`PostgreSQL process spawned with PID: ${child.pid}`);
+    if (lines.length === 0) {
+      return `. No log output; see ${startupLog}`;
+    }
 
-    // Wait a moment for the process to start
-    await new Promise(resolve => setTimeout(resolve, 2000));
+    const tail = lines.slice(-STARTUP_LOG_LINES).map(line => `  ${line}`).join('\n');
+    return `. Last log lines:\n${tail}\nStartup output is kept in ${startupLog}`;
+  }
 
-    // Verify it's running
-    if (!child.pid) {
-      throw new Error('Failed to start PostgreSQL process: No PID assigned');
+  /**
+   * Send the signal of a shutdown mode and wait for the postmaster to exit.
+   * sendSignal replaces process.kill, e.g. to signal through systemd.
+   */
+  private async stopPostgreSQLProcess(
+    pid: number,
+    mode: ShutdownMode,
+    timeout: number,
+    force = false,
+    sendSignal: (signal: NodeJS.Signals) => Promise<void> = async signal => { process.kill(pid, signal); }
+  ): Promise<void> {
+    try {
+      await sendSignal(SHUTDOWN_SIGNALS[mode]);
+    } catch {
+      // Already gone
+      return;
     }
-    
-    const isRunning = await this.isProcessRunning(child.pid);
-    if (!isRunning) {
-      throw new Error(`Failed to start PostgreSQL process: Process ${child.pid} exited immediately. Check PostgreSQL logs for errors.`);
+
+    console.log(`Sent ${SHUTDOWN_SIGNALS[mode]} (${mode} shutdown) to PostgreSQL process ${pid}`);
+    if (await this.waitForExit(pid, timeout)) {
+      return;
     }
 
-    console.log(`PostgreSQL process ${child.pid} started successfully`);
-    return child.pid;
+    if (!force) {
+      throw new Error(
+        `PostgreSQL process ${pid} did not stop within ${timeout}s of a ${mode} shutdown. ` +
+        'Retry with a faster --mode, a longer --timeout, or --force to kill it'
+      );
+    }
+
+    // Leaves backends behind and forces crash recovery on the next start
+    console.warn(`Warning: PostgreSQL process ${pid} did not stop within ${timeout}s, killing it`);
+    await sendSignal('SIGKILL');
+    await this.waitForExit(pid, 10);
   }
 
-  private async stopPostgreSQLProcess(pid: number): Promise<void> {
-    try {
-      process.kill(pid, 'SIGTERM');
-      
-      // Wait for graceful shutdown (up to 30 seconds)
-      for (let i = 0; i < 30; i++) {
-        if (!(await this.isProcessRunning(pid))) {
-          return;
-        }
-        await new Promise(resolve => setTimeout(resolve, 1000));
+  private async waitForExit(pid: number, timeout: number): Promise<boolean> {
+    const deadline = Date.now() + timeout * 1000;
+    while (await this.isProcessRunning(pid)) {
+      if (Date.now() >= deadline) {
+        return false;
       }
-
-      // Force kill if still running
-      process.kill(pid, 'SIGKILL');
-    } catch (error) {
-      // Process might already be dead
-      console.warn(`Warning: Could not stop process ${pid}: ${error}`);
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
+    return true;
   }
 
   private async isProcessRunning(pid: number): Promise<boolean> {
     try {
       process.kill(pid, 0);
       return true;
-    } catch {
-      return false;
+    } catch (error: any) {
+      // EPERM: alive, but owned by another user, such as a system service's postgres
+      return error?.code === 'EPERM';
     }
   }
 
@@ -779,189 +1121,1249 @@ export class InstanceManager {
 
   private async checkPostgreSQLInstalled(version: string): Promise<void> {
     try {
-      await this.findPostgreSQLBinary('postgres', version);
+      await findPostgreSQLBinary('postgres', version);
     } catch {
       throw new Error(`PostgreSQL ${version} is not installed. Install it first.`);
     }
   }
 
-  private async findPostgreSQLBinary(binary: string, version: string): Promise<string> {
-    // Extract major version from full version (e.g., "15.13" -> "15")
-    const majorVersion = version.split('.')[0];
-    
-    // Common PostgreSQL installation paths, ordered by preference
-    const paths = [
-      // Try exact version first
-      `/usr/lib/postgresql/${version}/bin/${binary}`,
-      `/usr/pgsql-${version}/bin/${binary}`,
-      `/opt/postgresql/${version}/bin/${binary}`,
-      // Try major version
-      `/usr/lib/postgresql/${majorVersion}/bin/${binary}`,
-      `/usr/pgsql-${majorVersion}/bin/${binary}`,
-      `/opt/postgresql/${majorVersion}/bin/${binary}`,
-      // Try generic paths
-      `/usr/bin/${binary}`,
-      `/usr/local/bin/${binary}`,
-      `/usr/local/pgsql/bin/${binary}`,
-      `/opt/postgresql/bin/${binary}`,
-    ];
+  /**
+   * Fail early when shared_preload_libraries names a library the server
+   * cannot load, since PostgreSQL would otherwise refuse to start
+   */
+  private async checkSharedLibraries(config: PostgreSQLInstanceConfig): Promise<void> {
+    const libraries = getSharedPreloadLibraries(config);
+    if (libraries.length === 0) {
+      return;
+    }
 
-    for (const path of paths) {
-      try {
-        await access(path);
-        return path;
+    let libraryDirectory: string;
+    try {
+      const pgConfig = await findPostgreSQLBinary('pg_config', config.spec.version);
+      const { stdout } = await execAsync(`"${pgConfig}" --pkglibdir`);
+      libraryDirectory = stdout.trim();
+    } catch {
+      // Without pg_config the server itself is the only check
+      return;
+    }
+
+    for (const library of libraries) {
+      try {
+        await access(join(libraryDirectory, `${library}.so`));
       } catch {
-        continue;
+        const majorVersion = config.spec.version.split('.')[0];
+        throw new Error(`${library} is not installed for PostgreSQL ${majorVersion} (looked in ${libraryDirectory}). Install it, e.g. the postgresql-${majorVersion}-${library} package`);
+      }
+    }
+  }
+
+  /**
+   * Create a catalogued backup of an instance
+   */
+  async createBackup(name: string, options: { type?: 'logical' | 'physical' } = {}): Promise<BackupCatalogEntry> {
+    return this.lockManager.withLock(name, 'backup create', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      return await this.backupManager.createBackup(config, options);
+    });
+  }
+
+  /**
+   * Compare the configuration files generated from the stored spec with the
+   * ones on disk, and work out whether a reload or restart picks them up
+   */
+  async planConfigChanges(config: PostgreSQLInstanceConfig): Promise<ConfigPlan> {
+    const dataDirectory = config.spec.storage.dataDirectory;
+    const running = config.status?.state === 'running';
+
+    const postgresqlConf = {
+      current: await this.readFileIfExists(join(dataDirectory, 'postgresql.conf')),
+      desired: generatePostgreSQLConf(config),
+    };
+    const pgHbaConf = {
+      current: await this.readFileIfExists(join(dataDirectory, 'pg_hba.conf')),
+      desired: generatePgHbaConf(config),
+    };
+
+    const changes = diffSettings(postgresqlConf.current, postgresqlConf.desired);
+    const contexts = running ? await this.getSettingContexts(config, changes.map(change => change.name)) : {};
+
+    const settings = changes.map(change => ({
+      ...change,
+      context: contexts[change.name],
+      action: getSettingAction(change.name, contexts[change.name]),
+    }));
+
+    return {
+      running,
+      settings,
+      postgresqlConf,
+      pgHbaConf,
+      hbaChanged: pgHbaConf.current !== pgHbaConf.desired,
+      restartRequired: settings.some(setting => setting.action === 'restart'),
+    };
+  }
+
+  /**
+   * Rewrite the configuration files of an instance from its stored spec and
+   * reload or restart it as needed
+   */
+  async applyInstance(
+    name: string,
+    options: { file?: string } = {}
+  ): Promise<{ plan: ConfigPlan; outcome: 'unchanged' | 'written' | 'reloaded' | 'restarted'; objectChanges: string[] }> {
+    return this.lockManager.withLock(name, 'apply', async () => {
+      const { current, candidate: config } = await this.loadCandidateConfig(name, options.file);
+
+      await this.validateConfig(config);
+
+      await this.tlsManager.ensureServerCertificate(config);
+      await this.checkSharedLibraries(config);
+
+      if (diffObjects(current.spec, config.spec).length > 0) {
+        await this.configManager.saveInstanceConfig(config);
+      }
+
+      const plan = await this.planConfigChanges(config);
+      const outcome = await this.applyConfigPlan(config, plan);
+
+      // Databases, roles and extensions can only be converged on a running server
+      const objectChanges: string[] = [];
+      if (plan.running) {
+        if (config.spec.databases?.length || config.spec.roles?.length) {
+          objectChanges.push(...await this.databaseManager.converge(config));
+        }
+        if (config.spec.extensions?.length) {
+          objectChanges.push(...await this.extensionManager.converge(config));
+        }
+      }
+
+      return { plan, outcome, objectChanges };
+    });
+  }
+
+  private async applyConfigPlan(
+    config: PostgreSQLInstanceConfig,
+    plan: ConfigPlan
+  ): Promise<'unchanged' | 'written' | 'reloaded' | 'restarted'> {
+    if (plan.settings.length === 0 && !plan.hbaChanged) {
+      return 'unchanged';
+    }
+
+    console.log('Writing PostgreSQL configuration files...');
+    await this.generateConfigFiles(config);
+
+    if (!plan.running) {
+      return 'written';
+    }
+
+    if (plan.restartRequired) {
+      console.log('Restarting instance to apply postmaster-level settings...');
+      await this.restartInstance(config.metadata.name);
+      return 'restarted';
+    }
+
+    console.log('Reloading instance configuration...');
+    await this.signalPostmaster(config, 'SIGHUP');
+    return 'reloaded';
+  }
+
+  /**
+   * Make a running instance reread its configuration files, through systemd
+   * when it runs as a service, and report which changes took effect, which
+   * wait for a restart and which the server rejected
+   */
+  async reloadInstance(name: string, useUserService = false): Promise<ReloadReport> {
+    return this.lockManager.withLock(name, 'reload', async () => {
+      const config = await this.getRunningInstance(name);
+      const admin = await this.secretsManager.getAdminConnection(config);
+
+      const before = await this.getSettingValues(config, admin);
+      const loadTime = await runPsql(config, 'SELECT pg_conf_load_time()', admin);
+
+      if (config.spec.service?.enabled && await this.serviceManager.isSystemdAvailable()) {
+        await this.serviceManager.reloadService(name, useUserService);
+      } else {
+        await this.signalPostmaster(config, 'SIGHUP');
+      }
+
+      // The postmaster rereads the files asynchronously; new sessions see the
+      // new load time once it has
+      const deadline = Date.now() + 10000;
+      while (await runPsql(config, 'SELECT pg_conf_load_time()', admin) === loadTime) {
+        if (Date.now() >= deadline) {
+          // A file the server cannot parse is rejected as a whole and leaves
+          // the load time alone; pg_file_settings rereads it and says why
+          const fileErrors = await this.getConfigFileErrors(config, admin);
+          if (fileErrors.length > 0) {
+            return buildReloadReport(before, before, [], fileErrors);
+          }
+          throw new Error(`Instance '${name}' did not reload its configuration within 10 seconds`);
+        }
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+
+      const after = await this.getSettingValues(config, admin);
+      const pendingRestart = (await runPsql(config, 'SELECT name, current_setting(name) FROM pg_settings WHERE pending_restart ORDER BY name', admin))
+        .split('\n')
+        .filter(Boolean)
+        .map(line => {
+          const [settingName, setting] = line.split('|');
+          return { name: settingName!, setting: setting || '' };
+        });
+
+      return buildReloadReport(before, after, pendingRestart, await this.getConfigFileErrors(config, admin));
+    });
+  }
+
+  private async getSettingValues(config: PostgreSQLInstanceConfig, admin: PsqlOptions): Promise<Record<string, string>> {
+    const values: Record<string, string> = {};
+    for (const line of (await runPsql(config, 'SELECT name, current_setting(name) FROM pg_settings', admin)).split('\n')) {
+      const index = line.indexOf('|');
+      if (index > 0) {
+        values[line.slice(0, index)] = line.slice(index + 1);
       }
     }
+    return values;
+  }
 
-    // If we can't find the binary in version-specific paths, try to find it dynamically
-    // using the same logic as the system check
+  /**
+   * Errors in postgresql.conf and pg_hba.conf as the server last read them.
+   * Both views are restricted to superusers.
+   */
+  private async getConfigFileErrors(config: PostgreSQLInstanceConfig, admin: PsqlOptions): Promise<ReloadReport['rejected']> {
     try {
-      const { execSync } = await import('child_process');
-      const whichResult = execSync(`which ${binary}`, { 
-        encoding: 'utf8', 
-        stdio: 'pipe' 
-      }).trim();
-      
-      if (whichResult) {
-        return whichResult;
+      const settings = await runPsql(
+        config,
+        "SELECT sourcefile, sourceline, COALESCE(name, ''), error FROM pg_file_settings WHERE error IS NOT NULL ORDER BY sourcefile, sourceline",
+        admin
+      );
+      const hba = await runPsql(
+        config,
+        "SELECT 'pg_hba.conf', line_number, '', error FROM pg_hba_file_rules WHERE error IS NOT NULL ORDER BY line_number",
+        admin
+      );
+
+      return [settings, hba].join('\n').split('\n').filter(Boolean).map(line => {
+        const [file, lineNumber, settingName, ...error] = line.split('|');
+        return {
+          file: file || '',
+          line: lineNumber ? parseInt(lineNumber) : undefined,
+          name: settingName || undefined,
+          error: error.join('|'),
+        };
+      });
+    } catch (error) {
+      console.warn(`Warning: Could not check the configuration files for errors: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Recompute spec.performance from the hardware. The spec is saved unless
+   * dryRun is set; run apply afterwards to write the configuration files.
+   */
+  async tuneInstance(
+    name: string,
+    options: { workload?: Workload; memory?: string; dryRun?: boolean } = {}
+  ): Promise<{ workload: Workload; hardware: HardwareProfile; instanceCount: number; changes: ValueChange[] }> {
+    return this.lockManager.withLock(name, 'tune', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
       }
-    } catch {
-      // which command failed, continue with original error
+
+      const workload = options.workload || getDefaultWorkload(config);
+      const memoryBytes = options.memory ? parseMemorySize(options.memory) : undefined;
+      const { settings, hardware, instanceCount } = await this.recommendTuning(config, workload, memoryBytes);
+
+      const performance = { ...config.spec.performance, ...settings };
+      const changes = diffObjects(config.spec.performance || {}, performance);
+
+      if (!options.dryRun && changes.length > 0) {
+        config.spec.performance = performance;
+        await this.validateConfig(config);
+        await this.configManager.saveInstanceConfig(config);
+      }
+
+      return { workload, hardware, instanceCount, changes };
+    });
+  }
+
+  private async recommendTuning(
+    config: PostgreSQLInstanceConfig,
+    workload: Workload,
+    memoryBytes?: number
+  ): Promise<{ settings: PerformanceSettings; hardware: HardwareProfile; instanceCount: number }> {
+    const hardware = detectHardware(config.spec.storage.dataDirectory);
+    if (memoryBytes) {
+      hardware.memoryBytes = memoryBytes;
     }
 
-    throw new Error(`PostgreSQL binary '${binary}' not found for version ${version}. Tried paths: ${paths.join(', ')}`);
+    // Every other instance on the machine gets an equal share of memory
+    const names = await this.configManager.listInstances();
+    const instanceCount = names.filter(other => other !== config.metadata.name).length + 1;
+
+    const settings = calculateTuning({
+      ...hardware,
+      workload,
+      maxConnections: config.spec.network.maxConnections,
+      instanceCount,
+    });
+
+    return { settings, hardware, instanceCount };
   }
 
-  private async createBackup(config: PostgreSQLInstanceConfig): Promise<void> {
-    console.log(`Creating backup for instance '${config.metadata.name}'...`);
-    // TODO: Implement backup functionality
-    console.log('Backup functionality not yet implemented');
+  /**
+   * Issue a new server certificate and reload the instance if it is running
+   */
+  async rotateTlsCertificate(name: string): Promise<{ files: CertificateFiles; expires: Date; reloaded: boolean }> {
+    return this.lockManager.withLock(name, 'tls rotate', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      const files = await this.tlsManager.rotateServerCertificate(config);
+
+      // Instances that predate managed certificates still need their paths recorded
+      if (await this.tlsManager.ensureServerCertificate(config)) {
+        await this.generateConfigFiles(config);
+        await this.configManager.saveInstanceConfig(config);
+      }
+
+      const reloaded = config.status?.state === 'running';
+      if (reloaded) {
+        await this.signalPostmaster(config, 'SIGHUP');
+      }
+
+      return { files, expires: await this.tlsManager.getCertificateExpiry(files.certificatePath), reloaded };
+    });
   }
 
   /**
-   * Enable service auto-start for an instance
+   * Issue a client certificate for connecting to an instance as `user` with
+   * cert authentication
    */
-  async enableService(name: string, useUserService = false): Promise<void> {
+  async issueClientCertificate(
+    name: string,
+    user: string,
+    options: { outputDirectory?: string; days?: number } = {}
+  ): Promise<CertificateFiles & { caPath: string }> {
     const config = await this.configManager.getInstanceConfig(name);
     if (!config) {
       throw new Error(`Instance '${name}' not found`);
     }
 
-    // Check if systemd is available
-    if (!await this.serviceManager.isSystemdAvailable()) {
-      throw new Error('systemd is not available on this system. Service management requires systemd.');
+    if (!config.spec.security?.ssl?.enabled) {
+      throw new Error(`SSL is not enabled for instance '${name}'`);
     }
 
-    // Update configuration to enable service
-    config.spec.service = {
-      enabled: true,
-      autoStart: true,
-      restartPolicy: 'on-failure',
-      restartSec: 5,
-      ...config.spec.service
+    const outputDirectory = options.outputDirectory || join(this.tlsManager.getTlsDirectory(), name, 'clients');
+    const files = await this.tlsManager.issueClientCertificate(user, outputDirectory, { days: options.days });
+
+    return { ...files, caPath: this.tlsManager.getCertificateAuthority().certificatePath };
+  }
+
+  /**
+   * Preview what applying the stored spec, or a manifest on top of it, would
+   * change without writing anything
+   */
+  async diffInstance(
+    name: string,
+    options: { file?: string } = {}
+  ): Promise<{ specChanges: ValueChange[]; plan: ConfigPlan }> {
+    const { current, candidate } = await this.loadCandidateConfig(name, options.file);
+
+    return {
+      specChanges: diffObjects(current.spec, candidate.spec),
+      plan: await this.planConfigChanges(candidate),
     };
+  }
 
-    // Enable the service
-    await this.serviceManager.enableService(config, useUserService);
+  /**
+   * Load an instance and the configuration it would have after overlaying a
+   * manifest. Without a manifest both are the stored configuration.
+   */
+  private async loadCandidateConfig(
+    name: string,
+    file?: string
+  ): Promise<{ current: PostgreSQLInstanceConfig; candidate: PostgreSQLInstanceConfig }> {
+    const current = await this.getInstanceStatus(name);
+    if (!current) {
+      throw new Error(`Instance '${name}' not found`);
+    }
 
-    // Update instance configuration
-    await this.configManager.saveInstanceConfig(config);
+    const candidate = structuredClone(current);
+    if (file) {
+      const manifest = await this.configManager.loadInstanceManifest(file);
+      if (manifest.metadata?.name && manifest.metadata.name !== name) {
+        throw new Error(`Manifest is for instance '${manifest.metadata.name}', not '${name}'`);
+      }
+      this.configManager.applyManifest(candidate, manifest);
+    }
 
-    console.log(`Service auto-start enabled for instance '${name}'`);
+    return { current, candidate };
   }
 
   /**
-   * Disable service auto-start for an instance
+   * Move a plaintext owner password from the instance YAML into the secret
+   * store. Returns the new reference, or null if there was nothing to move.
    */
-  async disableService(name: string, useUserService = false): Promise<void> {
+  async migrateSecrets(name: string): Promise<string | null> {
+    return this.lockManager.withLock(name, 'secrets migrate', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      const password = config.spec.database.password;
+      if (!password || config.spec.database.passwordRef) {
+        return null;
+      }
+
+      config.spec.database.passwordRef = await this.secretsManager.store(this.secretsManager.getSecretKey(name, 'owner'), password);
+      delete config.spec.database.password;
+      await this.configManager.saveInstanceConfig(config);
+
+      return config.spec.database.passwordRef;
+    });
+  }
+
+  /**
+   * Owner password of an instance, resolved from the secret store
+   */
+  async getOwnerPassword(config: PostgreSQLInstanceConfig): Promise<string | undefined> {
+    return this.secretsManager.getOwnerPassword(config);
+  }
+
+  /**
+   * Give a role a new generated password: store it, apply it with ALTER ROLE
+   * and rewrite any exported credential files. With a grace period the old
+   * password keeps working through a `<user>_previous` login role that is a
+   * member of the rotated role and expires after the period.
+   */
+  async rotateCredentials(
+    name: string,
+    options: { user?: string; grace?: string } = {}
+  ): Promise<{ user: string; ref: string; graceRole?: string; graceExpires?: Date; refreshed: string[] }> {
+    return this.lockManager.withLock(name, 'credentials rotate', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+      if (config.status?.state !== 'running') {
+        throw new Error(`Instance '${name}' must be running to rotate credentials`);
+      }
+
+      const user = options.user || config.spec.database.owner;
+      if (!isValidUserName(user)) {
+        throw new Error(`Invalid user name '${user}'`);
+      }
+      if (options.grace && user === 'postgres') {
+        throw new Error('A grace period is not supported for the postgres superuser');
+      }
+      const graceMs = options.grace ? parseRetention(options.grace) : undefined;
+
+      const oldPassword = await this.secretsManager.getRolePassword(config, user);
+      if (graceMs !== undefined && !oldPassword) {
+        throw new Error(`The current password of '${user}' is not known, so it cannot be kept for a grace period`);
+      }
+
+      // Resolved before the secret changes, as it may be the role being rotated
+      const admin = await this.secretsManager.getAdminConnection(config);
+      const ref = await this.secretsManager.getRoleSecretRef(config, user);
+      const newPassword = generateSecurePassword();
+      const method = getPasswordMethod(config);
+
+      let graceRole: string | undefined;
+      let graceExpires: Date | undefined;
+      if (graceMs !== undefined && oldPassword) {
+        graceRole = `${user}_previous`;
+        graceExpires = new Date(Date.now() + graceMs);
+        // Replaces the grace role left by an earlier rotation
+        await runPsql(config, `DROP ROLE IF EXISTS ${quoteIdentifier(graceRole)}`, admin);
+        await runPsql(
+          config,
+          `CREATE ROLE ${quoteIdentifier(graceRole)} LOGIN PASSWORD ${quoteLiteral(encryptPassword(oldPassword, graceRole, method))} IN ROLE ${quoteIdentifier(user)} VALID UNTIL ${quoteLiteral(graceExpires.toISOString())}`,
+          admin
+        );
+      }
+
+      // Stored before it is applied so it cannot be lost; put back if applying fails
+      await this.secretsManager.update(ref, newPassword);
+      try {
+        await runPsql(config, `ALTER ROLE ${quoteIdentifier(user)} WITH PASSWORD ${quoteLiteral(encryptPassword(newPassword, user, method))}`, admin);
+      } catch (error) {
+        if (oldPassword) {
+          await this.secretsManager.update(ref, oldPassword);
+        } else {
+          await this.secretsManager.delete(ref);
+        }
+        throw error;
+      }
+
+      if (user === config.spec.database.owner && config.spec.database.passwordRef !== ref) {
+        config.spec.database.passwordRef = ref;
+        delete config.spec.database.password;
+        await this.configManager.saveInstanceConfig(config);
+      } else if (user === 'postgres' && config.spec.database.superuserPasswordRef !== ref) {
+        config.spec.database.superuserPasswordRef = ref;
+        await this.configManager.saveInstanceConfig(config);
+      }
+
+      const refreshed = await this.credentialsManager.refreshOutputs(config, user, newPassword);
+
+      return { user, ref, graceRole, graceExpires, refreshed };
+    });
+  }
+
+  /**
+   * Write the connection credentials of a role to a .pgpass, pg_service.conf
+   * or .env file. Returns the path written.
+   */
+  async exportCredentials(
+    name: string,
+    format: CredentialFormat,
+    options: { user?: string; path?: string } = {}
+  ): Promise<string> {
     const config = await this.configManager.getInstanceConfig(name);
     if (!config) {
       throw new Error(`Instance '${name}' not found`);
     }
 
-    // Disable the service
-    await this.serviceManager.disableService(name, useUserService);
-
-    // Update configuration to disable service
-    if (config.spec.service) {
-      config.spec.service.enabled = false;
-      config.spec.service.autoStart = false;
+    const user = options.user || config.spec.database.owner;
+    const password = await this.secretsManager.getRolePassword(config, user);
+    if (!password) {
+      throw new Error(`No stored password for '${user}' on instance '${name}'`);
     }
 
-    // Update instance configuration
-    await this.configManager.saveInstanceConfig(config);
+    return this.credentialsManager.exportCredentials(config, format, user, password, options.path);
+  }
 
-    console.log(`Service auto-start disabled for instance '${name}'`);
+  async listDatabases(name: string): Promise<DatabaseInfo[]> {
+    return this.databaseManager.listDatabases(await this.getRunningInstance(name));
+  }
+
+  async createDatabase(name: string, database: DatabaseSpec): Promise<void> {
+    return this.lockManager.withLock(name, 'db create', async () => {
+      await this.databaseManager.createDatabase(await this.getRunningInstance(name), database);
+    });
+  }
+
+  async dropDatabase(name: string, database: string, options: { force?: boolean } = {}): Promise<void> {
+    return this.lockManager.withLock(name, 'db drop', async () => {
+      await this.databaseManager.dropDatabase(await this.getRunningInstance(name), database, options);
+    });
+  }
+
+  async listRoles(name: string): Promise<RoleInfo[]> {
+    return this.databaseManager.listRoles(await this.getRunningInstance(name));
   }
 
   /**
-   * Get service status for an instance
+   * Create a role; returns the secret reference of its password for login roles
    */
-  async getServiceStatus(name: string, useUserService = false): Promise<{
-    enabled: boolean;
-    active: boolean;
-    status: string;
-  }> {
-    return await this.serviceManager.getServiceStatus(name, useUserService);
+  async createRole(name: string, role: RoleSpec): Promise<string | undefined> {
+    return this.lockManager.withLock(name, 'role create', async () => {
+      return this.databaseManager.createRole(await this.getRunningInstance(name), role);
+    });
+  }
+
+  async dropRole(name: string, role: string): Promise<void> {
+    return this.lockManager.withLock(name, 'role drop', async () => {
+      const config = await this.getRunningInstance(name);
+      await this.databaseManager.dropRole(config, role);
+
+      if (config.spec.roles?.some(r => r.name === role)) {
+        console.log(`Warning: '${role}' is listed in spec.roles and will be created again on the next apply`);
+      }
+    });
+  }
+
+  async grantRole(name: string, role: string, grant: { memberOf?: string; privilege?: RolePrivilege }): Promise<void> {
+    return this.lockManager.withLock(name, 'role grant', async () => {
+      const config = await this.getRunningInstance(name);
+
+      if (grant.memberOf) {
+        await this.databaseManager.grantMembership(config, role, grant.memberOf);
+      }
+      if (grant.privilege) {
+        await this.databaseManager.grantPrivilege(config, role, grant.privilege);
+      }
+    });
+  }
+
+  async listExtensions(name: string, options: { database?: string } = {}): Promise<InstalledExtension[]> {
+    const config = await this.getRunningInstance(name);
+    return this.extensionManager.listInstalled(config, options.database || config.spec.database.name);
+  }
+
+  async listAvailableExtensions(name: string, options: { database?: string } = {}): Promise<AvailableExtension[]> {
+    const config = await this.getRunningInstance(name);
+    return this.extensionManager.listAvailable(config, options.database || config.spec.database.name);
   }
 
   /**
-   * Start instance using service (if enabled) or direct process
+   * Add an extension to spec.extensions and create it. Extensions that must
+   * be preloaded are only added to shared_preload_libraries until the next
+   * restart; `apply` creates them afterwards.
    */
-  async startInstanceWithService(name: string, useUserService = false): Promise<void> {
-    const config = await this.configManager.getInstanceConfig(name);
+  async enableExtension(name: string, extension: ExtensionSpec): Promise<{ change: string | null; restartRequired: boolean }> {
+    return this.lockManager.withLock(name, 'extension enable', async () => {
+      const config = await this.getRunningInstance(name);
+      await this.extensionManager.checkAvailable(config, extension);
+
+      const database = extension.database || config.spec.database.name;
+      config.spec.extensions = [
+        ...(config.spec.extensions || []).filter(e => e.name !== extension.name || (e.database || config.spec.database.name) !== database),
+        extension,
+      ];
+
+      await this.validateConfig(config);
+      await this.checkSharedLibraries(config);
+      await this.generateConfigFiles(config);
+      await this.configManager.saveInstanceConfig(config);
+
+      const loaded = await this.extensionManager.getLoadedLibraries(config);
+      if (PRELOAD_EXTENSIONS.includes(extension.name) && !loaded.includes(extension.name)) {
+        return { change: null, restartRequired: true };
+      }
+
+      return { change: await this.extensionManager.enable(config, extension), restartRequired: false };
+    });
+  }
+
+  /**
+   * Drop an extension and remove it from spec.extensions. Returns whether a
+   * restart is needed to unload its library.
+   */
+  async disableExtension(
+    name: string,
+    extensionName: string,
+    options: { database?: string; cascade?: boolean } = {}
+  ): Promise<{ restartRequired: boolean }> {
+    return this.lockManager.withLock(name, 'extension disable', async () => {
+      const config = await this.getRunningInstance(name);
+      const database = options.database || config.spec.database.name;
+
+      await this.extensionManager.disable(config, extensionName, database, { cascade: options.cascade });
+
+      const remaining = (config.spec.extensions || []).filter(e => e.name !== extensionName || (e.database || config.spec.database.name) !== database);
+      if (remaining.length !== (config.spec.extensions || []).length) {
+        config.spec.extensions = remaining;
+        await this.generateConfigFiles(config);
+        await this.configManager.saveInstanceConfig(config);
+      }
+
+      const loaded = await this.extensionManager.getLoadedLibraries(config);
+      return { restartRequired: loaded.includes(extensionName) && !getSharedPreloadLibraries(config).includes(extensionName) };
+    });
+  }
+
+  private async getRunningInstance(name: string): Promise<PostgreSQLInstanceConfig> {
+    const config = await this.getInstanceStatus(name);
     if (!config) {
       throw new Error(`Instance '${name}' not found`);
     }
-
-    if (config.spec.service?.enabled && await this.serviceManager.isSystemdAvailable()) {
-      // Start using systemd service
-      await this.serviceManager.startService(name, useUserService);
-      
-      // Wait for service to start and update status
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      const serviceStatus = await this.serviceManager.getServiceStatus(name, useUserService);
-      
-      config.status = {
-        state: serviceStatus.active ? 'running' : 'stopped',
-        startTime: serviceStatus.active ? new Date().toISOString() : undefined,
-        version: config.spec.version,
-        connections: 0,
-        service: serviceStatus,
-      };
-    } else {
-      // Start using direct process (existing method)
-      await this.startInstance(name);
+    if (config.status?.state !== 'running') {
+      throw new Error(`Instance '${name}' is not running`);
     }
+    return config;
   }
 
   /**
-   * Stop instance using service (if enabled) or direct process
+   * Which pg_hba.conf rule of an instance a connection would be checked
+   * against. SSL defaults to on when the instance has it enabled, as libpq
+   * prefers SSL when the server offers it.
    */
-  async stopInstanceWithService(name: string, useUserService = false): Promise<void> {
+  async testHbaRule(
+    name: string,
+    connection: HbaConnection
+  ): Promise<{ line: string; lineNumber: number; method: string } | null> {
     const config = await this.configManager.getInstanceConfig(name);
     if (!config) {
       throw new Error(`Instance '${name}' not found`);
     }
 
-    if (config.spec.service?.enabled && await this.serviceManager.isSystemdAvailable()) {
-      // Stop using systemd service
-      await this.serviceManager.stopService(name, useUserService);
-      
-      // Update status
-      const serviceStatus = await this.serviceManager.getServiceStatus(name, useUserService);
-      config.status = {
-        state: 'stopped',
-        lastRestart: config.status?.startTime,
-        version: config.spec.version,
-        connections: 0,
-        service: serviceStatus,
+    const match = matchHbaRule(getHbaRules(config), {
+      ...connection,
+      ssl: connection.ssl ?? Boolean(config.spec.security?.ssl?.enabled),
+    });
+    if (!match) {
+      return null;
+    }
+
+    return { line: formatHbaRule(match.rule), lineNumber: match.index + 1, method: match.rule.method };
+  }
+
+  /**
+   * Switch an instance from md5 to scram-sha-256: re-hash every role password
+   * PgForge knows with SCRAM, then regenerate postgresql.conf and pg_hba.conf
+   * and reload. Roles whose password is not known keep their md5 hash and are
+   * returned so they can be reset; while any remain the instance stays on md5
+   * unless force is set, as those roles could no longer log in.
+   */
+  async migrateToScram(name: string, force = false): Promise<{ migrated: string[]; remaining: string[]; switched: boolean }> {
+    return this.lockManager.withLock(name, 'auth migrate-scram', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+      if (config.status?.state !== 'running') {
+        throw new Error(`Instance '${name}' must be running to migrate passwords`);
+      }
+
+      const method = config.spec.security?.authentication?.method || 'md5';
+      if (method !== 'md5' && method !== 'scram-sha-256') {
+        throw new Error(`Instance '${name}' uses ${method} authentication, not md5`);
+      }
+
+      const admin = await this.secretsManager.getAdminConnection(config);
+      if (admin.user !== 'postgres') {
+        throw new Error(`The superuser password of '${name}' is not stored; it is needed to read and re-hash role passwords`);
+      }
+
+      // md5 hashes are stored as "md5" followed by 32 hex digits
+      const output = await runPsql(config, "SELECT rolname FROM pg_authid WHERE rolpassword LIKE 'md5%' ORDER BY rolname", admin);
+      const roles = output.split('\n').filter(Boolean);
+
+      const migrated: string[] = [];
+      const remaining: string[] = [];
+      for (const role of roles) {
+        const password = await this.secretsManager.getRolePassword(config, role);
+        if (!password) {
+          remaining.push(role);
+          continue;
+        }
+
+        await runPsql(
+          config,
+          `ALTER ROLE ${quoteIdentifier(role)} WITH PASSWORD ${quoteLiteral(scramSha256Verifier(password))}`,
+          admin
+        );
+        migrated.push(role);
+      }
+
+      // SCRAM hashes are accepted by md5 rules too, so the re-hashed roles
+      // keep working while the switch waits
+      if (remaining.length > 0 && !force) {
+        return { migrated, remaining, switched: false };
+      }
+
+      const authentication = config.spec.security?.authentication;
+      config.spec.security = {
+        ...config.spec.security,
+        authentication: { ...authentication, method: 'scram-sha-256' },
       };
+
+      await this.generateConfigFiles(config);
+      await this.configManager.saveInstanceConfig(config);
+      await this.signalPostmaster(config, 'SIGHUP');
+
+      return { migrated, remaining, switched: true };
+    });
+  }
+
+  private async getSettingContexts(config: PostgreSQLInstanceConfig, names: string[]): Promise<Record<string, string>> {
+    const settingNames = names.filter(name => /^[a-z0-9_.]+$/.test(name));
+    if (settingNames.length === 0) {
+      return {};
+    }
+
+    try {
+      const output = await runPsql(
+        config,
+        `SELECT name, context FROM pg_settings WHERE name IN (${settingNames.map(name => `'${name}'`).join(', ')})`,
+        await this.secretsManager.getAdminConnection(config)
+      );
+
+      const contexts: Record<string, string> = {};
+      for (const line of output.split('\n').filter(Boolean)) {
+        const [name, context] = line.split('|');
+        if (name && context) {
+          contexts[name] = context;
+        }
+      }
+      return contexts;
+    } catch (error) {
+      // Fall back to the built-in list of restart-only settings
+      console.warn(`Warning: Could not query pg_settings: ${error instanceof Error ? error.message : String(error)}`);
+      return {};
+    }
+  }
+
+  /**
+   * Send a signal to the postmaster recorded in the data directory
+   */
+  private async signalPostmaster(config: PostgreSQLInstanceConfig, signal: NodeJS.Signals): Promise<void> {
+    const postmaster = await readPostmasterPid(config.spec.storage.dataDirectory);
+    if (!postmaster) {
+      throw new Error(`Instance '${config.metadata.name}' has no postmaster.pid, is it running?`);
+    }
+
+    process.kill(postmaster.pid, signal);
+  }
+
+  private async readFileIfExists(path: string): Promise<string> {
+    try {
+      return await readFile(path, 'utf-8');
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Restore a catalogued backup, either in place or into a newly provisioned
+   * instance when options.as is given
+   */
+  async restoreBackup(
+    name: string,
+    backupId: string,
+    options: { as?: string } = {}
+  ): Promise<PostgreSQLInstanceConfig> {
+    return this.lockManager.withLock(name, 'backup restore', async () => {
+      const entry = await this.backupManager.getBackup(name, backupId);
+      if (!entry) {
+        throw new Error(`Backup '${backupId}' not found for instance '${name}'`);
+      }
+
+      console.log(`Verifying backup '${entry.id}'...`);
+      await this.backupManager.verifyBackup(entry);
+
+      const source = await this.getInstanceStatus(name);
+
+      if (options.as) {
+        return await this.restoreIntoNewInstance(source, entry, options.as);
+      }
+
+      if (!source) {
+        throw new Error(`Instance '${name}' not found. Restore into a new instance with --as`);
+      }
+
+      return await this.restoreInPlace(source, entry);
+    });
+  }
+
+  private async restoreInPlace(config: PostgreSQLInstanceConfig, entry: BackupCatalogEntry): Promise<PostgreSQLInstanceConfig> {
+    const name = config.metadata.name;
+    const wasRunning = config.status?.state === 'running';
+
+    if (wasRunning) {
+      console.log(`Stopping instance '${name}' before restore...`);
+      await this.stopInstanceWithService(name);
+    }
+
+    if (entry.type === 'physical') {
+      // Keep the current cluster until the new one is in place
+      const dataDirectory = config.spec.storage.dataDirectory;
+      const previousDirectory = `${dataDirectory}.pre-restore-${Date.now()}`;
+      await this.moveClusterAside(config, previousDirectory);
+
+      await this.backupManager.extractPhysicalBackup(entry, dataDirectory, config.spec.storage.walDirectory);
+      await this.createSocketDirectory(config);
+      await this.generateConfigFiles(config);
+
+      if (wasRunning) {
+        await this.startInstanceWithService(name);
+      }
+
+      console.log(`Previous data directory kept at ${previousDirectory}. Remove it manually once the restore is verified.`);
     } else {
-      // Stop using direct process (existing method)
-      await this.stopInstance(name);
+      await this.startInstanceWithService(name);
+      const running = await this.getInstanceStatus(name);
+      await this.backupManager.restoreLogicalBackup(running || config, entry, { clean: true });
+
+      if (!wasRunning) {
+        await this.stopInstanceWithService(name);
+      }
+    }
+
+    return (await this.getInstanceStatus(name)) || config;
+  }
+
+  /**
+   * Restore the latest physical backup taken before targetTime and replay
+   * archived WAL up to that moment
+   */
+  async restoreToPointInTime(
+    name: string,
+    options: { targetTime: string; backupId?: string; timeout?: number }
+  ): Promise<{ config: PostgreSQLInstanceConfig; backup: BackupCatalogEntry }> {
+    return this.lockManager.withLock(name, 'restore', async () => {
+      const config = await this.getInstanceStatus(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      if (!config.spec.storage.archiveDirectory) {
+        throw new Error(`Instance '${name}' has no spec.storage.archiveDirectory, WAL archiving is not enabled`);
+      }
+
+      const target = new Date(options.targetTime);
+      if (isNaN(target.getTime())) {
+        throw new Error(`Invalid target time '${options.targetTime}'`);
+      }
+
+      const backups = (await this.backupManager.listBackups(name)).filter(entry => entry.type === 'physical');
+      const entry = options.backupId
+        ? backups.find(backup => backup.id === options.backupId)
+        : backups.filter(backup => new Date(backup.createdAt) <= target).pop();
+
+      if (!entry) {
+        throw new Error(options.backupId
+          ? `Physical backup '${options.backupId}' not found for instance '${name}'`
+          : `No physical backup of '${name}' was taken before ${target.toISOString()}`);
+      }
+
+      if (new Date(entry.createdAt) > target) {
+        throw new Error(`Backup '${entry.id}' finished after the target time and cannot be used`);
+      }
+
+      console.log(`Verifying base backup '${entry.id}'...`);
+      await this.backupManager.verifyBackup(entry);
+
+      if (config.status?.state === 'running') {
+        console.log(`Stopping instance '${name}' before recovery...`);
+        await this.stopInstanceWithService(name);
+      }
+
+      const dataDirectory = config.spec.storage.dataDirectory;
+      const previousDirectory = `${dataDirectory}.pre-pitr-${Date.now()}`;
+      await this.moveClusterAside(config, previousDirectory);
+
+      await this.backupManager.extractPhysicalBackup(entry, dataDirectory, config.spec.storage.walDirectory);
+      await this.createSocketDirectory(config);
+      await this.generateConfigFiles(config);
+
+      // recovery.signal puts the server into targeted recovery on next start
+      const recoveryConf = [
+        '# Point-in-time recovery target written by PgForge',
+        `recovery_target_time = '${target.toISOString()}'`,
+        "recovery_target_action = 'promote'",
+      ].join('\n') + '\n';
+      await writeFile(join(dataDirectory, RECOVERY_CONF_FILE), recoveryConf, 'utf-8');
+      await writeFile(join(dataDirectory, 'recovery.signal'), '', 'utf-8');
+
+      console.log(`Replaying archived WAL up to ${target.toISOString()}...`);
+      await this.startInstanceWithService(name);
+      await this.waitForRecoveryToFinish(config, options.timeout || 600);
+
+      // Keep a later recovery.signal from reusing this target
+      await unlink(join(dataDirectory, RECOVERY_CONF_FILE));
+
+      console.log(`Previous data directory kept at ${previousDirectory}. Remove it manually once the recovery is verified.`);
+      return { config: (await this.getInstanceStatus(name)) || config, backup: entry };
+    });
+  }
+
+  /**
+   * Move the data directory (and a separate WAL directory) out of the way
+   * before laying down a base backup
+   */
+  private async moveClusterAside(config: PostgreSQLInstanceConfig, previousDirectory: string): Promise<void> {
+    console.log(`Moving current data directory to ${previousDirectory}...`);
+    await rename(config.spec.storage.dataDirectory, previousDirectory);
+
+    const walDirectory = config.spec.storage.walDirectory;
+    if (walDirectory) {
+      try {
+        await rename(walDirectory, `${previousDirectory}.pg_wal`);
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  private async waitForRecoveryToFinish(config: PostgreSQLInstanceConfig, timeoutSeconds: number): Promise<void> {
+    const deadline = Date.now() + timeoutSeconds * 1000;
+    let lastError = '';
+
+    while (Date.now() < deadline) {
+      try {
+        const inRecovery = await runPsql(config, 'SELECT pg_is_in_recovery()', await this.secretsManager.getAdminConnection(config));
+
+        if (inRecovery === 'f') {
+          console.log('Recovery finished, instance promoted');
+          return;
+        }
+        lastError = 'still in recovery';
+      } catch (error) {
+        // The server refuses connections until it reaches a consistent state
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+
+      const current = await this.configManager.getInstanceConfig(config.metadata.name);
+      if (current?.status?.pid && !(await this.isProcessRunning(current.status.pid))) {
+        throw new Error(`PostgreSQL exited during recovery. Check the logs in ${config.spec.storage.logDirectory}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+
+    throw new Error(`Recovery did not finish within ${timeoutSeconds} seconds. Last status: ${lastError}`);
+  }
+
+  private async restoreIntoNewInstance(
+    source: PostgreSQLInstanceConfig | null,
+    entry: BackupCatalogEntry,
+    targetName: string
+  ): Promise<PostgreSQLInstanceConfig> {
+    // The name becomes the lock file name, so it is checked before the lock
+    if (!isValidInstanceName(targetName)) {
+      throw new Error('Instance name must contain only lowercase letters, numbers, and hyphens');
     }
+    return this.lockManager.withLock(targetName, 'create', async () => {
+      if (await this.configManager.getInstanceConfig(targetName)) {
+        throw new Error(`Instance '${targetName}' already exists`);
+      }
+
+      const port = await this.findAvailablePort();
+      const version = source?.spec.version || entry.postgresqlVersion;
+      const config = await this.configManager.createInstanceConfig(targetName, { port, version });
+
+      config.metadata.annotations = {
+        ...config.metadata.annotations,
+        description: `Restored from backup ${entry.id}`,
+        restoredFrom: `${entry.instance}/${entry.id}`,
+      };
+
+      console.log(`Restoring backup '${entry.id}' into new instance '${targetName}' on port ${port}...`);
+
+      if (entry.type === 'physical') {
+        // A physical copy carries the source cluster's roles and databases
+        if (source) {
+          const { password, passwordRef, superuserPasswordRef, ...database } = source.spec.database;
+          config.spec.database = { ...database };
+
+          // Copied into secrets of the new instance, so rotating them there
+          // leaves the source's credentials alone
+          const ownerPassword = await this.secretsManager.getOwnerPassword(source);
+          if (ownerPassword) {
+            config.spec.database.passwordRef = await this.secretsManager.store(this.secretsManager.getSecretKey(targetName, 'owner'), ownerPassword);
+          }
+          const superuserPassword = await this.secretsManager.getSuperuserPassword(source);
+          if (superuserPassword) {
+            config.spec.database.superuserPasswordRef = await this.secretsManager.store(this.secretsManager.getSecretKey(targetName, 'postgres'), superuserPassword);
+          }
+        } else {
+          console.log(`Warning: source instance '${entry.instance}' no longer exists, database credentials must be set manually`);
+        }
+
+        await this.createInstanceDirectories(config);
+        await this.ensureDataDirectoryIsEmpty(config.spec.storage.dataDirectory);
+        await this.backupManager.extractPhysicalBackup(entry, config.spec.storage.dataDirectory, config.spec.storage.walDirectory);
+        await this.createSocketDirectory(config);
+        await this.generateConfigFiles(config);
+        await this.configManager.saveInstanceConfig(config);
+        await this.startInstance(targetName);
+      } else {
+        await this.provisionInstance(config);
+        await this.startInstance(targetName);
+        const running = await this.getInstanceStatus(targetName);
+        await this.backupManager.restoreLogicalBackup(running || config, entry);
+      }
+
+      return (await this.getInstanceStatus(targetName)) || config;
+    });
+  }
+
+  private async findAvailablePort(preferredPort: number = 5432): Promise<number> {
+    const existing = await this.listInstances();
+    let port = suggestAvailablePort(preferredPort, existing);
+
+    // Also skip ports taken by servers PgForge does not manage
+    for (let attempt = 0; attempt < 100 && !(await this.isPortAvailable(port)); attempt++) {
+      port = suggestAvailablePort(port + 1, existing);
+    }
+
+    return port;
+  }
+
+  /**
+   * Install (or remove) the systemd timer running scheduled backups. A new
+   * cron expression replaces spec.backup.schedule.
+   */
+  async scheduleBackups(
+    name: string,
+    options: { schedule?: string; disable?: boolean; useUserService?: boolean } = {}
+  ): Promise<string | null> {
+    return this.lockManager.withLock(name, 'backup schedule', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      if (options.disable) {
+        await this.serviceManager.disableBackupTimer(name, options.useUserService);
+        if (config.spec.backup) {
+          config.spec.backup.enabled = false;
+        }
+        await this.configManager.saveInstanceConfig(config);
+        return null;
+      }
+
+      config.spec.backup = {
+        ...config.spec.backup,
+        enabled: true,
+        schedule: options.schedule || config.spec.backup?.schedule,
+      };
+
+      if (!config.spec.backup.schedule) {
+        throw new Error(`Instance '${name}' has no backup schedule. Pass a cron expression, e.g. "0 2 * * *"`);
+      }
+
+      const onCalendar = await this.serviceManager.enableBackupTimer(config, options.useUserService);
+      await this.configManager.saveInstanceConfig(config);
+      return onCalendar;
+    });
+  }
+
+  /**
+   * Delete backups older than the instance's retention window
+   */
+  async pruneBackups(name: string, options: { dryRun?: boolean } = {}): Promise<BackupCatalogEntry[]> {
+    return this.lockManager.withLock(name, 'backup prune', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      return await this.backupManager.pruneBackups(config, options);
+    });
+  }
+
+  /**
+   * List catalogued backups for an instance
+   */
+  async listBackups(name: string): Promise<BackupCatalogEntry[]> {
+    return await this.backupManager.listBackups(name);
+  }
+
+  /**
+   * Enable service auto-start for an instance
+   */
+  async enableService(name: string, useUserService = false): Promise<void> {
+    return this.lockManager.withLock(name, 'enable-service', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      // Check if systemd is available
+      if (!await this.serviceManager.isSystemdAvailable()) {
+        throw new Error('systemd is not available on this system. Service management requires systemd.');
+      }
+
+      // Update configuration to enable service
+      config.spec.service = {
+        enabled: true,
+        autoStart: true,
+        restartPolicy: 'on-failure',
+        restartSec: 5,
+        ...config.spec.service
+      };
+
+      // Enable the service
+      await this.serviceManager.enableService(config, useUserService);
+
+      // Scheduled backups run alongside the service
+      if (config.spec.backup?.enabled && config.spec.backup.schedule) {
+        await this.serviceManager.enableBackupTimer(config, useUserService);
+      }
+
+      // Update instance configuration
+      await this.configManager.saveInstanceConfig(config);
+
+      console.log(`Service auto-start enabled for instance '${name}'`);
+    });
+  }
+
+  /**
+   * Disable service auto-start for an instance
+   */
+  async disableService(name: string, useUserService = false): Promise<void> {
+    return this.lockManager.withLock(name, 'disable-service', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      // Disable the service and any scheduled backups
+      await this.serviceManager.disableService(name, useUserService);
+      await this.serviceManager.disableBackupTimer(name, useUserService);
+
+      // Update configuration to disable service
+      if (config.spec.service) {
+        config.spec.service.enabled = false;
+        config.spec.service.autoStart = false;
+      }
+
+      // Update instance configuration
+      await this.configManager.saveInstanceConfig(config);
+
+      console.log(`Service auto-start disabled for instance '${name}'`);
+    });
+  }
+
+  /**
+   * Get service status for an instance
+   */
+  async getServiceStatus(name: string, useUserService = false): Promise<{
+    enabled: boolean;
+    active: boolean;
+    status: string;
+  }> {
+    return await this.serviceManager.getServiceStatus(name, useUserService);
+  }
+
+  /**
+   * Start instance using service (if enabled) or direct process
+   */
+  async startInstanceWithService(name: string, useUserService = false, options: { timeout?: number } = {}): Promise<void> {
+    return this.lockManager.withLock(name, 'start', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      if (config.spec.service?.enabled && await this.serviceManager.isSystemdAvailable()) {
+        await this.startServer(config, options, useUserService);
+      } else {
+        await this.startServer(config, options);
+      }
+    });
+  }
+
+  /**
+   * Stop instance using service (if enabled) or direct process
+   */
+  async stopInstanceWithService(name: string, useUserService = false, options: StopOptions = {}): Promise<void> {
+    return this.lockManager.withLock(name, 'stop', async () => {
+      const config = await this.configManager.getInstanceConfig(name);
+      if (!config) {
+        throw new Error(`Instance '${name}' not found`);
+      }
+
+      if (config.spec.service?.enabled && await this.serviceManager.isSystemdAvailable()) {
+        await this.stopServer(config, options, useUserService);
+      } else {
+        await this.stopServer(config, options);
+      }
+    });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Workload assumed when none is given: instances created from the
+ * development or testing templates are tuned lightly
+ */
+function getDefaultWorkload(config: PostgreSQLInstanceConfig): Workload {
+  const environment = config.metadata.labels?.environment;
+  return environment === 'development' || environment === 'testing' ? 'dev' : 'oltp';
+}
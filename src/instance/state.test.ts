@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'bun:test';
+import { deriveInstanceState, isPostmasterCommand, applyObservedState } from './state.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import type { PostmasterPid } from '../utils/postgres.js';
+
+const baseConfig: PostgreSQLInstanceConfig = {
+  apiVersion: 'v1',
+  kind: 'PostgreSQLInstance',
+  metadata: { name: 'test-db' },
+  spec: {
+    version: '17.0',
+    network: { port: 5432, bindAddress: '127.0.0.1', maxConnections: 100 },
+    storage: { dataDirectory: '/data/test-db', logDirectory: '/logs/test-db' },
+    database: { name: 'testdb', owner: 'test_user', encoding: 'UTF8', locale: 'en_US.UTF-8', timezone: 'UTC' }
+  }
+};
+
+const postmaster: PostmasterPid = {
+  pid: 4242,
+  dataDirectory: '/data/test-db',
+  startTime: 1760875200,
+  port: 5432,
+  status: 'ready',
+};
+
+const postgresCommand = ['/usr/lib/postgresql/17/bin/postgres', '-D', '/data/test-db'];
+
+describe('Instance State', () => {
+  test('should report stopped without postmaster.pid', () => {
+    expect(deriveInstanceState(baseConfig, null, null)).toEqual({ state: 'stopped' });
+  });
+
+  test('should map the postmaster.pid status line', () => {
+    const running = deriveInstanceState(baseConfig, postmaster, postgresCommand);
+    expect(running.state).toBe('running');
+    expect(running.pid).toBe(4242);
+    expect(running.startTime).toBe('2025-10-19T12:00:00.000Z');
+
+    expect(deriveInstanceState(baseConfig, { ...postmaster, status: 'starting' }, postgresCommand).state).toBe('starting');
+    expect(deriveInstanceState(baseConfig, { ...postmaster, status: 'stopping' }, postgresCommand).state).toBe('stopping');
+    expect(deriveInstanceState(baseConfig, { ...postmaster, status: 'standby' }, postgresCommand).state).toBe('running');
+    expect(deriveInstanceState(baseConfig, { ...postmaster, status: undefined }, postgresCommand).state).toBe('running');
+  });
+
+  test('should report an error when the postmaster is gone or its PID was reused', () => {
+    const crashed = deriveInstanceState(baseConfig, postmaster, null);
+    expect(crashed.state).toBe('error');
+    expect(crashed.pid).toBeUndefined();
+
+    const reused = deriveInstanceState(baseConfig, postmaster, ['/usr/bin/node', 'server.js']);
+    expect(reused.state).toBe('error');
+    expect(reused.message).toContain('node');
+  });
+
+  test('should trust the PID when the command line cannot be read', () => {
+    expect(deriveInstanceState(baseConfig, postmaster, []).state).toBe('running');
+  });
+
+  test('should note a port that differs from the configuration', () => {
+    const observed = deriveInstanceState(baseConfig, { ...postmaster, port: 5433 }, postgresCommand);
+    expect(observed.state).toBe('running');
+    expect(observed.message).toContain('5433');
+  });
+
+  test('should only accept postmasters of the same data directory', () => {
+    expect(isPostmasterCommand(postgresCommand, '/data/test-db/')).toBe(true);
+    expect(isPostmasterCommand(['postmaster'], '/data/test-db')).toBe(true);
+    expect(isPostmasterCommand(['/usr/bin/postgres', '-D', '/data/other-db'], '/data/test-db')).toBe(false);
+    expect(isPostmasterCommand(['/usr/bin/sleep', '30'], '/data/test-db')).toBe(false);
+  });
+});
+
+describe('Status Updates', () => {
+  test('should record a postmaster started outside PgForge', () => {
+    const status = applyObservedState(
+      { state: 'stopped', version: '17.0', connections: 0 },
+      { state: 'running', pid: 4242, startTime: '2025-10-19T12:00:00.000Z' },
+      '17.0'
+    );
+
+    expect(status).toEqual({ state: 'running', pid: 4242, startTime: '2025-10-19T12:00:00.000Z', version: '17.0', connections: 0 });
+  });
+
+  test('should move the start time to lastRestart once the server is gone', () => {
+    const status = applyObservedState(
+      { state: 'running', pid: 4242, startTime: '2025-10-19T12:00:00.000Z', version: '17.0', connections: 3 },
+      { state: 'error', message: 'postmaster.pid is stale' },
+      '17.0'
+    );
+
+    expect(status.state).toBe('error');
+    expect(status.message).toBe('postmaster.pid is stale');
+    expect(status.pid).toBeUndefined();
+    expect(status.startTime).toBeUndefined();
+    expect(status.lastRestart).toBe('2025-10-19T12:00:00.000Z');
+  });
+
+  test('should clear a previous message', () => {
+    const status = applyObservedState(
+      { state: 'error', message: 'PostgreSQL exited during startup', version: '17.0', connections: 0 },
+      { state: 'stopped' },
+      '17.0'
+    );
+
+    expect(status).toEqual({ state: 'stopped', version: '17.0', connections: 0 });
+  });
+});
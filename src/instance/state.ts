@@ -0,0 +1,139 @@
+import { readFile } from 'fs/promises';
+import { basename, resolve } from 'path';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import { readPostmasterPid } from '../utils/postgres.js';
+import type { PostmasterPid } from '../utils/postgres.js';
+
+export type InstanceStatus = NonNullable<PostgreSQLInstanceConfig['status']>;
+export type InstanceState = InstanceStatus['state'];
+
+/**
+ * State of an instance as seen from its data directory and process table
+ */
+export interface ObservedState {
+  state: InstanceState;
+  pid?: number;
+  startTime?: string;
+  message?: string;
+}
+
+const ACTIVE_STATES: InstanceState[] = ['starting', 'running', 'stopping'];
+
+/**
+ * Read postmaster.pid and check the process it names. The command line is
+ * null when that process does not exist, and empty where /proc is not
+ * available.
+ */
+export async function inspectInstance(config: PostgreSQLInstanceConfig): Promise<ObservedState> {
+  const postmaster = await readPostmasterPid(config.spec.storage.dataDirectory);
+  if (!postmaster) {
+    return deriveInstanceState(config, null, null);
+  }
+
+  let cmdline: string[] | null;
+  try {
+    process.kill(postmaster.pid, 0);
+    cmdline = await readProcessCommandLine(postmaster.pid);
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to another user
+    cmdline = error?.code === 'EPERM' ? await readProcessCommandLine(postmaster.pid) : null;
+  }
+
+  return deriveInstanceState(config, postmaster, cmdline);
+}
+
+export function deriveInstanceState(
+  config: PostgreSQLInstanceConfig,
+  postmaster: PostmasterPid | null,
+  cmdline: string[] | null
+): ObservedState {
+  // The postmaster removes the file on a clean shutdown
+  if (!postmaster) {
+    return { state: 'stopped' };
+  }
+
+  if (cmdline === null) {
+    return {
+      state: 'error',
+      message: `postmaster.pid names PID ${postmaster.pid}, which is not running; the server did not shut down cleanly`,
+    };
+  }
+
+  if (cmdline.length > 0 && !isPostmasterCommand(cmdline, config.spec.storage.dataDirectory)) {
+    return {
+      state: 'error',
+      message: `postmaster.pid is stale; PID ${postmaster.pid} now belongs to another program (${basename(cmdline[0] || '')})`,
+    };
+  }
+
+  const observed: ObservedState = {
+    state: postmaster.status === 'starting' ? 'starting' : postmaster.status === 'stopping' ? 'stopping' : 'running',
+    pid: postmaster.pid,
+    startTime: postmaster.startTime ? new Date(postmaster.startTime * 1000).toISOString() : undefined,
+  };
+
+  if (postmaster.port && postmaster.port !== config.spec.network.port) {
+    observed.message = `Listening on port ${postmaster.port}; port ${config.spec.network.port} takes effect after a restart`;
+  }
+
+  return observed;
+}
+
+/**
+ * Whether a command line is a postmaster serving the given data directory
+ */
+export function isPostmasterCommand(cmdline: string[], dataDirectory: string): boolean {
+  if (!['postgres', 'postmaster'].includes(basename(cmdline[0] || ''))) {
+    return false;
+  }
+
+  const index = cmdline.indexOf('-D');
+  const directory = index >= 0 ? cmdline[index + 1] : undefined;
+  return directory === undefined || resolve(directory) === resolve(dataDirectory);
+}
+
+/**
+ * Status block recording an observed state. Start times are kept while the
+ * same postmaster keeps running, and the last one is moved to lastRestart
+ * once it is gone.
+ */
+export function applyObservedState(
+  status: InstanceStatus | undefined,
+  observed: ObservedState,
+  version: string
+): InstanceStatus {
+  const wasActive = status !== undefined && ACTIVE_STATES.includes(status.state);
+  const next: InstanceStatus = {
+    ...status,
+    state: observed.state,
+    message: observed.message,
+    version: status?.version || version,
+    connections: status?.connections ?? 0,
+  };
+
+  if (ACTIVE_STATES.includes(observed.state)) {
+    const samePostmaster = wasActive && status?.pid === observed.pid;
+    next.pid = observed.pid;
+    next.startTime = observed.startTime || (samePostmaster ? status?.startTime : undefined) || new Date().toISOString();
+  } else {
+    if (wasActive && status?.startTime) {
+      next.lastRestart = status.startTime;
+    }
+    delete next.pid;
+    delete next.startTime;
+  }
+
+  if (!next.message) {
+    delete next.message;
+  }
+
+  return next;
+}
+
+async function readProcessCommandLine(pid: number): Promise<string[]> {
+  try {
+    return (await readFile(`/proc/${pid}/cmdline`, 'utf8')).split('\0').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, writeFile, rm, access } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LockManager } from './manager.js';
+
+describe('Instance Locks', () => {
+  const lockManager = new LockManager();
+  const originalHome = process.env.PGFORGE_HOME;
+  let configDir: string;
+
+  const lockPath = () => join(configDir, 'locks', 'myapp.lock');
+
+  async function writeLock(pid: number, operation: string): Promise<void> {
+    await mkdir(join(configDir, 'locks'), { recursive: true });
+    await writeFile(lockPath(), JSON.stringify({ pid, operation, acquiredAt: '2026-01-01T00:00:00.000Z' }));
+  }
+
+  async function exists(path: string): Promise<boolean> {
+    return access(path).then(() => true, () => false);
+  }
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'pgforge-home-'));
+    process.env.PGFORGE_HOME = configDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.PGFORGE_HOME;
+    } else {
+      process.env.PGFORGE_HOME = originalHome;
+    }
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  test('should hold the lock while the operation runs', async () => {
+    const result = await lockManager.withLock('myapp', 'start', async () => {
+      expect((await lockManager.getHolder('myapp'))?.operation).toBe('start');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await exists(lockPath())).toBe(false);
+  });
+
+  test('should release the lock when the operation fails', async () => {
+    await expect(lockManager.withLock('myapp', 'apply', async () => {
+      throw new Error('invalid spec');
+    })).rejects.toThrow('invalid spec');
+
+    expect(await exists(lockPath())).toBe(false);
+  });
+
+  test('should let nested operations of the same process through', async () => {
+    await lockManager.withLock('myapp', 'restart', async () => {
+      await lockManager.withLock('myapp', 'stop', async () => {});
+      expect((await lockManager.getHolder('myapp'))?.operation).toBe('restart');
+    });
+
+    expect(await exists(lockPath())).toBe(false);
+  });
+
+  test('should refuse a lock held by another live process', async () => {
+    await writeLock(process.ppid, 'stop');
+
+    await expect(lockManager.withLock('myapp', 'start', async () => {})).rejects.toThrow(
+      `Instance 'myapp' is busy (pid ${process.ppid} running 'stop'`
+    );
+    expect(await lockManager.tryWithLock('myapp', 'status', async () => 'saved')).toBeUndefined();
+    expect(await exists(lockPath())).toBe(true);
+  });
+
+  test('should take over a lock left by a process that exited', async () => {
+    const exited = Bun.spawnSync(['true']).pid;
+    await writeLock(exited, 'stop');
+
+    expect(await lockManager.withLock('myapp', 'start', async () => 'started')).toBe('started');
+    expect(await exists(lockPath())).toBe(false);
+  });
+
+  test('should wait for a store lock held by another process', async () => {
+    await mkdir(join(configDir, 'locks'), { recursive: true });
+    const storeLock = join(configDir, 'locks', '_secrets.lock');
+    await writeFile(storeLock, JSON.stringify({ pid: process.ppid, operation: 'write secrets', acquiredAt: '2026-01-01T00:00:00.000Z' }));
+    setTimeout(() => rm(storeLock, { force: true }), 200);
+
+    expect(await lockManager.withStoreLock('secrets', async () => 'written')).toBe('written');
+    expect(await exists(storeLock)).toBe(false);
+  });
+
+  test('should run store writers of the same process one at a time', async () => {
+    const order: string[] = [];
+    const write = (id: string) => lockManager.withStoreLock('secrets', async () => {
+      order.push(`start ${id}`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      order.push(`end ${id}`);
+    });
+
+    await Promise.all([write('a'), write('b')]);
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+});
@@ -0,0 +1,225 @@
+import { mkdir, open, readFile, stat, unlink } from 'fs/promises';
+import { join } from 'path';
+import { ConfigManager } from '../config/manager.js';
+
+/**
+ * Contents of an instance lock file
+ */
+export interface InstanceLock {
+  pid: number;
+  operation: string;
+  acquiredAt: string;
+}
+
+// Locks this process holds, with how many nested operations hold each, so
+// an operation can call others on the same instance
+const heldLocks = new Map<string, number>();
+
+// How long a store lock is waited for; they are only held for a read and a write
+const STORE_LOCK_TIMEOUT = 10000;
+const STORE_LOCK_RETRY_INTERVAL = 50;
+
+// Store locks are not re-entrant: writers in this process queue up here
+// before taking the lock file
+const storeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Advisory locks, held by operations that change an instance or a shared
+ * store so concurrent pgforge processes cannot interleave them
+ */
+export class LockManager {
+  private configManager: ConfigManager;
+
+  constructor(configManager?: ConfigManager) {
+    this.configManager = configManager || new ConfigManager();
+  }
+
+  /**
+   * Run fn while holding the lock of an instance. Fails straight away when
+   * another process holds it.
+   */
+  async withLock<T>(name: string, operation: string, fn: () => Promise<T>): Promise<T> {
+    const path = await this.acquire(name, operation);
+    if (!path) {
+      throw new Error(await this.getBusyMessage(name));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.release(path);
+    }
+  }
+
+  /**
+   * Run fn while holding the lock of an instance, or skip it and return
+   * undefined when another process holds it
+   */
+  async tryWithLock<T>(name: string, operation: string, fn: () => Promise<T>): Promise<T | undefined> {
+    const path = await this.acquire(name, operation);
+    if (!path) {
+      return undefined;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.release(path);
+    }
+  }
+
+  /**
+   * Run fn while holding the lock of a file shared by all instances, such as
+   * the secret store. Waits for another process to finish with it instead of
+   * failing.
+   */
+  async withStoreLock<T>(store: string, fn: () => Promise<T>): Promise<T> {
+    // Instance names start with a letter, so these cannot collide with them
+    const name = `_${store}`;
+    const queueKey = this.getLockPath(name);
+
+    const run = (storeQueues.get(queueKey) || Promise.resolve())
+      .catch(() => {})
+      .then(() => this.holdStoreLock(name, store, fn));
+    storeQueues.set(queueKey, run);
+
+    try {
+      return await run;
+    } finally {
+      if (storeQueues.get(queueKey) === run) {
+        storeQueues.delete(queueKey);
+      }
+    }
+  }
+
+  private async holdStoreLock<T>(name: string, store: string, fn: () => Promise<T>): Promise<T> {
+    const deadline = Date.now() + STORE_LOCK_TIMEOUT;
+
+    let path = await this.acquire(name, `write ${store}`);
+    while (!path) {
+      if (Date.now() >= deadline) {
+        const holder = await this.getHolder(name);
+        throw new Error(holder
+          ? `Timed out waiting for the ${store} lock held by pid ${holder.pid}`
+          : `Timed out waiting for the ${store} lock`);
+      }
+      await new Promise(resolve => setTimeout(resolve, STORE_LOCK_RETRY_INTERVAL));
+      path = await this.acquire(name, `write ${store}`);
+    }
+
+    try {
+      return await fn();
+    } finally {
+      await this.release(path);
+    }
+  }
+
+  /**
+   * The live process holding the lock of an instance, if any
+   */
+  async getHolder(name: string): Promise<InstanceLock | null> {
+    const lock = await readLock(this.getLockPath(name));
+    return lock && isProcessAlive(lock.pid) ? lock : null;
+  }
+
+  private getLockPath(name: string): string {
+    return join(this.configManager.getConfigDirectory(), 'locks', `${name}.lock`);
+  }
+
+  /**
+   * Create the lock file, replacing one left behind by a process that no
+   * longer runs. Returns its path, or null when another process holds it.
+   */
+  private async acquire(name: string, operation: string): Promise<string | null> {
+    const path = this.getLockPath(name);
+
+    const held = heldLocks.get(path);
+    if (held) {
+      heldLocks.set(path, held + 1);
+      return path;
+    }
+
+    await mkdir(join(this.configManager.getConfigDirectory(), 'locks'), { recursive: true });
+    const lock: InstanceLock = { pid: process.pid, operation, acquiredAt: new Date().toISOString() };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const handle = await open(path, 'wx', 0o644);
+        try {
+          await handle.writeFile(JSON.stringify(lock) + '\n', 'utf-8');
+        } finally {
+          await handle.close();
+        }
+        heldLocks.set(path, 1);
+        return path;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const content = await readFile(path, 'utf-8').catch(() => '');
+      const holder = parseLock(content);
+      // A lock without content may be one another process is still writing
+      if (holder ? isProcessAlive(holder.pid) : await isRecentlyModified(path)) {
+        return null;
+      }
+
+      // Stale; unless another process has just replaced it
+      if (await readFile(path, 'utf-8').catch(() => '') === content) {
+        await unlink(path).catch(() => {});
+      }
+    }
+
+    return null;
+  }
+
+  private async release(path: string): Promise<void> {
+    const held = heldLocks.get(path) || 0;
+    if (held > 1) {
+      heldLocks.set(path, held - 1);
+      return;
+    }
+
+    heldLocks.delete(path);
+    await unlink(path).catch(() => {});
+  }
+
+  private async getBusyMessage(name: string): Promise<string> {
+    const holder = await this.getHolder(name);
+    return holder
+      ? `Instance '${name}' is busy (pid ${holder.pid} running '${holder.operation}' since ${holder.acquiredAt})`
+      : `Instance '${name}' is busy`;
+  }
+}
+
+async function readLock(path: string): Promise<InstanceLock | null> {
+  return parseLock(await readFile(path, 'utf-8').catch(() => ''));
+}
+
+function parseLock(content: string): InstanceLock | null {
+  try {
+    const lock = JSON.parse(content) as InstanceLock;
+    return typeof lock?.pid === 'number' ? lock : null;
+  } catch {
+    return null;
+  }
+}
+
+async function isRecentlyModified(path: string): Promise<boolean> {
+  try {
+    return Date.now() - (await stat(path)).mtimeMs < 5000;
+  } catch {
+    return false;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: alive, but owned by another user
+    return error?.code === 'EPERM';
+  }
+}
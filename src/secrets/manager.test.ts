@@ -0,0 +1,152 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, mkdir, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileSecretProvider, SecretsManager, formatSecretRef } from './manager.js';
+import { parseSecretRef } from '../utils/validation.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+
+describe('Secret References', () => {
+  test('should parse provider and key', () => {
+    expect(parseSecretRef('file:myapp-db/owner')).toEqual({ provider: 'file', key: 'myapp-db/owner' });
+    expect(parseSecretRef('pass:team/db:primary')).toEqual({ provider: 'pass', key: 'team/db:primary' });
+  });
+
+  test('should reject unknown providers and missing keys', () => {
+    expect(() => parseSecretRef('vault:db/owner')).toThrow('Invalid secret reference');
+    expect(() => parseSecretRef('file:')).toThrow('Invalid secret reference');
+    expect(() => parseSecretRef('myapp-db/owner')).toThrow('Invalid secret reference');
+  });
+
+  test('should format references', () => {
+    expect(formatSecretRef('secret-service', 'db/owner')).toBe('secret-service:db/owner');
+  });
+});
+
+describe('File Secret Provider', () => {
+  const originalMasterKey = process.env.PGFORGE_MASTER_KEY;
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'pgforge-secrets-'));
+    delete process.env.PGFORGE_MASTER_KEY;
+  });
+
+  afterEach(async () => {
+    if (originalMasterKey === undefined) {
+      delete process.env.PGFORGE_MASTER_KEY;
+    } else {
+      process.env.PGFORGE_MASTER_KEY = originalMasterKey;
+    }
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('should round-trip secrets without storing plaintext', async () => {
+    const provider = new FileSecretProvider(directory);
+    await provider.set('db/owner', 's3cret-value');
+
+    expect(await provider.get('db/owner')).toBe('s3cret-value');
+    expect(await readFile(join(directory, 'store.json'), 'utf-8')).not.toContain('s3cret-value');
+    expect((await stat(join(directory, 'master.key'))).mode & 0o777).toBe(0o600);
+  });
+
+  test('should return null for missing secrets and delete entries', async () => {
+    const provider = new FileSecretProvider(directory);
+    expect(await provider.get('db/owner')).toBeNull();
+
+    await provider.set('db/owner', 'value');
+    await provider.delete('db/owner');
+    expect(await provider.get('db/owner')).toBeNull();
+  });
+
+  test('should share one master key between providers created at the same time', async () => {
+    await Promise.all([
+      new FileSecretProvider(directory).set('db/owner', 'first'),
+      new FileSecretProvider(directory).set('db/reader', 'second'),
+    ]);
+
+    // Without a lock manager one store write may win, but whatever was
+    // written must decrypt with the key left on disk
+    const provider = new FileSecretProvider(directory);
+    const stored = [await provider.get('db/owner'), await provider.get('db/reader')];
+    expect(stored.filter(value => value !== null).length).toBeGreaterThan(0);
+    expect(stored.every(value => value === null || value === 'first' || value === 'second')).toBe(true);
+  });
+
+  test('should not replace a master key it cannot read', async () => {
+    await mkdir(join(directory, 'master.key'));
+    await expect(new FileSecretProvider(directory).set('db/owner', 'value')).rejects.toThrow('Could not read master key');
+  });
+
+  test('should derive the key from PGFORGE_MASTER_KEY', async () => {
+    process.env.PGFORGE_MASTER_KEY = 'correct horse battery staple';
+    const provider = new FileSecretProvider(directory);
+    await provider.set('db/owner', 'value');
+    expect(await provider.get('db/owner')).toBe('value');
+
+    process.env.PGFORGE_MASTER_KEY = 'wrong key';
+    await expect(provider.get('db/owner')).rejects.toThrow('Could not decrypt');
+  });
+});
+
+describe('Secrets Manager', () => {
+  const secretsManager = new SecretsManager();
+  const config: PostgreSQLInstanceConfig = {
+    apiVersion: 'v1',
+    kind: 'PostgreSQLInstance',
+    metadata: { name: 'myapp' },
+    spec: {
+      version: '17.0',
+      network: { port: 5432, bindAddress: '127.0.0.1', maxConnections: 100 },
+      storage: { dataDirectory: '/data/myapp', logDirectory: '/logs/myapp' },
+      database: { name: 'app', owner: 'app_user', encoding: 'UTF8', locale: 'en_US.UTF-8', timezone: 'UTC' }
+    }
+  };
+  const originalHome = process.env.PGFORGE_HOME;
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'pgforge-home-'));
+    process.env.PGFORGE_HOME = configDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.PGFORGE_HOME;
+    } else {
+      process.env.PGFORGE_HOME = originalHome;
+    }
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  test('should store with the default provider and resolve references', async () => {
+    const ref = await secretsManager.store(secretsManager.getSecretKey('myapp', 'owner'), 'pw');
+    expect(ref).toBe('file:myapp/owner');
+    expect(await secretsManager.resolve(ref)).toBe('pw');
+    await expect(secretsManager.resolve('file:other/owner')).rejects.toThrow("Secret 'file:other/owner' not found");
+  });
+
+  test('should keep every secret stored concurrently', async () => {
+    const roles = ['alpha', 'beta', 'gamma', 'delta', 'epsilon'];
+    await Promise.all(roles.map(role => secretsManager.store(secretsManager.getRoleSecretKey('myapp', role), role)));
+
+    for (const role of roles) {
+      expect(await secretsManager.resolve(`file:myapp/roles/${role}`)).toBe(role);
+    }
+  });
+
+  test('should keep role secrets apart from the owner and superuser', async () => {
+    expect(await secretsManager.getRoleSecretRef(config, 'owner')).toBe('file:myapp/roles/owner');
+    expect(await secretsManager.getRoleSecretRef(config, 'app_user')).toBe('file:myapp/owner');
+    expect(await secretsManager.getRoleSecretRef(config, 'postgres')).toBe('file:myapp/postgres');
+  });
+
+  test('should use the passwordRef of roles listed in the spec', async () => {
+    const withRoles = { ...config, spec: { ...config.spec, roles: [{ name: 'reporter', login: true, passwordRef: 'file:shared/reporter' }] } };
+    await secretsManager.store('shared/reporter', 'pw');
+
+    expect(await secretsManager.getRoleSecretRef(withRoles, 'reporter')).toBe('file:shared/reporter');
+    expect(await secretsManager.getRolePassword(withRoles, 'reporter')).toBe('pw');
+    expect(await secretsManager.getRolePassword(withRoles, 'other')).toBeUndefined();
+  });
+});
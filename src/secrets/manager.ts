@@ -0,0 +1,391 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { mkdir, readFile, writeFile, chmod, link, unlink } from 'fs/promises';
+import { join } from 'path';
+import { ConfigManager } from '../config/manager.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import type { PsqlOptions } from '../utils/postgres.js';
+import { writeFileAtomic } from '../utils/files.js';
+import { LockManager } from '../lock/manager.js';
+import { parseSecretRef } from '../utils/validation.js';
+import type { SecretProviderName } from '../utils/constants.js';
+
+const execFileAsync = promisify(execFile);
+
+// Namespace for secrets kept in shared stores (Secret Service, pass)
+const SECRET_NAMESPACE = 'pgforge';
+
+export interface SecretProvider {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface SecretStoreFile {
+  version: 1;
+  // Salt for deriving the key from PGFORGE_MASTER_KEY
+  salt: string;
+  secrets: Record<string, EncryptedSecret>;
+}
+
+/**
+ * Secrets encrypted with AES-256-GCM in ~/.pgforge/secrets/store.json. The
+ * key comes from PGFORGE_MASTER_KEY when set, otherwise from a random
+ * master.key file created on first use. Given a lock manager, changes hold
+ * the store lock so concurrent processes do not drop each other's secrets.
+ */
+export class FileSecretProvider implements SecretProvider {
+  constructor(private directory: string, private lockManager?: LockManager) {}
+
+  async get(key: string): Promise<string | null> {
+    const store = await this.loadStore();
+    const secret = store.secrets[key];
+    if (!secret) {
+      return null;
+    }
+
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', await this.getKey(store), Buffer.from(secret.iv, 'base64'));
+      decipher.setAAD(Buffer.from(key));
+      decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+      return Buffer.concat([decipher.update(Buffer.from(secret.data, 'base64')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(`Could not decrypt secret '${key}'. Check that the master key has not changed`);
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.withStoreLock(async () => {
+      const store = await this.loadStore();
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', await this.getKey(store), iv);
+      // Binding the key name stops an entry being copied to another name
+      cipher.setAAD(Buffer.from(key));
+      const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+      store.secrets[key] = {
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      };
+      await this.saveStore(store);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.withStoreLock(async () => {
+      const store = await this.loadStore();
+      if (store.secrets[key]) {
+        delete store.secrets[key];
+        await this.saveStore(store);
+      }
+    });
+  }
+
+  private withStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.lockManager ? this.lockManager.withStoreLock('secrets', fn) : fn();
+  }
+
+  private get storePath(): string {
+    return join(this.directory, 'store.json');
+  }
+
+  private get keyPath(): string {
+    return join(this.directory, 'master.key');
+  }
+
+  private async loadStore(): Promise<SecretStoreFile> {
+    try {
+      return JSON.parse(await readFile(this.storePath, 'utf-8')) as SecretStoreFile;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw new Error(`Could not read secret store ${this.storePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return { version: 1, salt: randomBytes(16).toString('base64'), secrets: {} };
+    }
+  }
+
+  private async saveStore(store: SecretStoreFile): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await writeFileAtomic(this.storePath, JSON.stringify(store, null, 2) + '\n', 0o600);
+  }
+
+  private async getKey(store: SecretStoreFile): Promise<Buffer> {
+    if (process.env.PGFORGE_MASTER_KEY) {
+      return scryptSync(process.env.PGFORGE_MASTER_KEY, Buffer.from(store.salt, 'base64'), 32);
+    }
+
+    const existing = await this.readKey();
+    if (existing) {
+      return existing;
+    }
+
+    // Written aside and linked into place, which fails if another process
+    // created the key first; a replaced key would orphan every stored secret
+    const key = randomBytes(32);
+    const tempPath = `${this.keyPath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    try {
+      await writeFile(tempPath, key.toString('base64') + '\n', { encoding: 'utf-8', mode: 0o600 });
+      await chmod(tempPath, 0o600);
+      await link(tempPath, this.keyPath);
+      return key;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        throw error;
+      }
+      const created = await this.readKey();
+      if (!created) {
+        throw new Error(`Master key ${this.keyPath} disappeared while it was being created`);
+      }
+      return created;
+    } finally {
+      await unlink(tempPath).catch(() => {});
+    }
+  }
+
+  /**
+   * The master key file, or null when it does not exist yet. Any other read
+   * failure is an error rather than a reason to generate a new key.
+   */
+  private async readKey(): Promise<Buffer | null> {
+    try {
+      return Buffer.from((await readFile(this.keyPath, 'utf-8')).trim(), 'base64');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(`Could not read master key ${this.keyPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Secrets in the desktop keyring through the freedesktop Secret Service,
+ * using the secret-tool CLI from libsecret
+ */
+export class SecretServiceProvider implements SecretProvider {
+  async get(key: string): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('secret-tool', ['lookup', 'service', SECRET_NAMESPACE, 'key', key]);
+      return stdout.toString();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error('secret-tool not found. Install libsecret-tools to use the secret-service provider');
+      }
+      // secret-tool exits with 1 when nothing matches
+      return null;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await runWithInput('secret-tool', ['store', `--label=PgForge ${key}`, 'service', SECRET_NAMESPACE, 'key', key], value);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await execFileAsync('secret-tool', ['clear', 'service', SECRET_NAMESPACE, 'key', key]);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Secrets in the `pass` password store under pgforge/
+ */
+export class PassProvider implements SecretProvider {
+  async get(key: string): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync('pass', ['show', `${SECRET_NAMESPACE}/${key}`]);
+      // pass keeps the password on the first line
+      return stdout.toString().split('\n')[0] ?? '';
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error('pass not found. Install pass to use the pass provider');
+      }
+      return null;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await runWithInput('pass', ['insert', '--multiline', '--force', `${SECRET_NAMESPACE}/${key}`], value + '\n');
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await execFileAsync('pass', ['rm', '--force', `${SECRET_NAMESPACE}/${key}`]);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+export class SecretsManager {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = new ConfigManager();
+  }
+
+  /**
+   * Look up the value behind a reference such as "file:myapp-db/owner"
+   */
+  async resolve(ref: string): Promise<string> {
+    const { provider, key } = parseSecretRef(ref);
+    const value = await this.getProvider(provider).get(key);
+    if (value === null) {
+      throw new Error(`Secret '${ref}' not found`);
+    }
+    return value;
+  }
+
+  /**
+   * Store a value with the configured provider (or the one given) and return
+   * its reference
+   */
+  async store(key: string, value: string, provider?: SecretProviderName): Promise<string> {
+    const providerName = provider || await this.getDefaultProvider();
+    await this.getProvider(providerName).set(key, value);
+    return formatSecretRef(providerName, key);
+  }
+
+  /**
+   * Replace the value behind an existing reference
+   */
+  async update(ref: string, value: string): Promise<void> {
+    const { provider, key } = parseSecretRef(ref);
+    await this.getProvider(provider).set(key, value);
+  }
+
+  async delete(ref: string): Promise<void> {
+    const { provider, key } = parseSecretRef(ref);
+    await this.getProvider(provider).delete(key);
+  }
+
+  /**
+   * Password of the database owner, from passwordRef or, for instances
+   * created before secret references, the plaintext password field
+   */
+  async getOwnerPassword(config: PostgreSQLInstanceConfig): Promise<string | undefined> {
+    const ref = config.spec.database.passwordRef;
+    return ref ? this.resolve(ref) : config.spec.database.password;
+  }
+
+  async getSuperuserPassword(config: PostgreSQLInstanceConfig): Promise<string | undefined> {
+    const ref = config.spec.database.superuserPasswordRef;
+    return ref ? this.resolve(ref) : undefined;
+  }
+
+  /**
+   * Connection options for administrative queries: the superuser when its
+   * password is known, otherwise the database owner
+   */
+  async getAdminConnection(config: PostgreSQLInstanceConfig): Promise<PsqlOptions> {
+    const superuserPassword = await this.getSuperuserPassword(config);
+    if (superuserPassword) {
+      return { user: 'postgres', password: superuserPassword };
+    }
+
+    return {
+      user: config.spec.database.owner,
+      password: await this.getOwnerPassword(config),
+      database: config.spec.database.name,
+    };
+  }
+
+  /**
+   * Key under which PgForge stores a generated credential of an instance
+   */
+  getSecretKey(instanceName: string, role: string): string {
+    return `${instanceName}/${role}`;
+  }
+
+  /**
+   * Key of the generated password of a role created with `role create` or
+   * spec.roles, kept apart from the owner and superuser secrets
+   */
+  getRoleSecretKey(instanceName: string, role: string): string {
+    return `${instanceName}/roles/${role}`;
+  }
+
+  /**
+   * Reference under which a generated role password is stored
+   */
+  async getGeneratedRoleSecretRef(config: PostgreSQLInstanceConfig, role: string): Promise<string> {
+    return formatSecretRef(await this.getDefaultProvider(), this.getRoleSecretKey(config.metadata.name, role));
+  }
+
+  /**
+   * Reference to the secret of a role: the one recorded in the spec for the
+   * owner, the superuser or an entry of spec.roles, otherwise the default
+   * location for the role
+   */
+  async getRoleSecretRef(config: PostgreSQLInstanceConfig, role: string): Promise<string> {
+    if (role === config.spec.database.owner) {
+      return config.spec.database.passwordRef || formatSecretRef(await this.getDefaultProvider(), this.getSecretKey(config.metadata.name, 'owner'));
+    }
+    if (role === 'postgres') {
+      return config.spec.database.superuserPasswordRef || formatSecretRef(await this.getDefaultProvider(), this.getSecretKey(config.metadata.name, 'postgres'));
+    }
+    const passwordRef = config.spec.roles?.find(r => r.name === role)?.passwordRef;
+    return passwordRef || this.getGeneratedRoleSecretRef(config, role);
+  }
+
+  /**
+   * Current password of a role, or undefined if PgForge does not know it
+   */
+  async getRolePassword(config: PostgreSQLInstanceConfig, role: string): Promise<string | undefined> {
+    if (role === config.spec.database.owner) {
+      return this.getOwnerPassword(config);
+    }
+    if (role === 'postgres') {
+      return this.getSuperuserPassword(config);
+    }
+
+    const { provider, key } = parseSecretRef(await this.getRoleSecretRef(config, role));
+    return (await this.getProvider(provider).get(key)) ?? undefined;
+  }
+
+  private async getDefaultProvider(): Promise<SecretProviderName> {
+    const globalConfig = await this.configManager.getGlobalConfig();
+    return globalConfig.global.secrets?.provider || 'file';
+  }
+
+  private getProvider(name: SecretProviderName): SecretProvider {
+    switch (name) {
+      case 'file':
+        return new FileSecretProvider(join(this.configManager.getConfigDirectory(), 'secrets'), new LockManager(this.configManager));
+      case 'secret-service':
+        return new SecretServiceProvider();
+      case 'pass':
+        return new PassProvider();
+    }
+  }
+}
+
+export function formatSecretRef(provider: SecretProviderName, key: string): string {
+  return `${provider}:${key}`;
+}
+
+function runWithInput(command: string, args: string[], input: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(command, args, (error, _stdout, stderr) => {
+      if (!error) {
+        resolve();
+      } else if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error(`${command} not found`));
+      } else {
+        reject(new Error(`${command} failed: ${stderr.toString().trim() || error.message}`));
+      }
+    });
+    child.stdin?.end(input);
+  });
+}
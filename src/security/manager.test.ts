@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'bun:test';
+import { auditInstanceConfig, auditDataDirectoryMode, isLoopbackOnly } from './manager.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+
+const baseConfig: PostgreSQLInstanceConfig = {
+  apiVersion: 'v1',
+  kind: 'PostgreSQLInstance',
+  metadata: { name: 'test-db' },
+  spec: {
+    version: '17.0',
+    network: { port: 5432, bindAddress: '127.0.0.1', maxConnections: 100 },
+    storage: { dataDirectory: '/data/test-db', logDirectory: '/logs/test-db' },
+    database: { name: 'testdb', owner: 'test_user', encoding: 'UTF8', locale: 'en_US.UTF-8', timezone: 'UTC' },
+    security: { authentication: { method: 'scram-sha-256', allowedHosts: ['127.0.0.1/32', '::1/128'] } }
+  }
+};
+
+describe('Security Audit', () => {
+  test('should pass a loopback-only instance', () => {
+    expect(auditInstanceConfig(baseConfig)).toEqual([]);
+  });
+
+  test('should flag world-open entries, trust auth and missing SSL on exposed instances', () => {
+    const config: PostgreSQLInstanceConfig = {
+      ...baseConfig,
+      spec: {
+        ...baseConfig.spec,
+        network: { ...baseConfig.spec.network, bindAddress: '0.0.0.0' },
+        security: {
+          authentication: {
+            method: 'md5',
+            allowedHosts: ['0.0.0.0/0'],
+            rules: [
+              { type: 'host', database: 'all', user: 'all', address: '10.0.0.0/8', method: 'trust' },
+              { type: 'host', database: 'all', user: 'all', address: '::/0', method: 'reject' },
+            ]
+          }
+        }
+      }
+    };
+
+    const findings = auditInstanceConfig(config);
+    expect(findings.map(finding => finding.check).sort()).toEqual(['ssl-disabled', 'trust-auth', 'world-open-hba']);
+    expect(findings.find(finding => finding.check === 'world-open-hba')?.severity).toBe('high');
+  });
+
+  test('should rate world-open entries low while only listening on loopback', () => {
+    const config: PostgreSQLInstanceConfig = {
+      ...baseConfig,
+      spec: { ...baseConfig.spec, security: { authentication: { method: 'md5', allowedHosts: ['0.0.0.0/0'] } } }
+    };
+
+    expect(auditInstanceConfig(config)).toEqual([
+      expect.objectContaining({ check: 'world-open-hba', severity: 'low' }),
+    ]);
+  });
+
+  test('should flag plaintext passwords', () => {
+    const config = { ...baseConfig, spec: { ...baseConfig.spec, database: { ...baseConfig.spec.database, password: 'secret' } } };
+    expect(auditInstanceConfig(config).map(finding => finding.check)).toEqual(['plaintext-password']);
+  });
+
+  test('should flag data directories open to group writes or others', () => {
+    expect(auditDataDirectoryMode(baseConfig, 0o40700)).toEqual([]);
+    expect(auditDataDirectoryMode(baseConfig, 0o40750)).toEqual([]);
+    expect(auditDataDirectoryMode(baseConfig, 0o40755)[0]?.message).toContain('0755');
+  });
+
+  test('should recognise loopback listen addresses', () => {
+    expect(isLoopbackOnly('127.0.0.1')).toBe(true);
+    expect(isLoopbackOnly('localhost, ::1')).toBe(true);
+    expect(isLoopbackOnly('127.0.0.1,10.0.0.5')).toBe(false);
+    expect(isLoopbackOnly('*')).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { stat } from 'fs/promises';
+import { ConfigManager } from '../config/manager.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import { getHbaRules, formatHbaRule } from '../instance/conf.js';
+import { parseCidr } from '../utils/validation.js';
+
+export type AuditSeverity = 'high' | 'medium' | 'low';
+
+export interface AuditFinding {
+  instance: string;
+  check: 'world-open-hba' | 'trust-auth' | 'ssl-disabled' | 'plaintext-password' | 'data-directory-permissions';
+  severity: AuditSeverity;
+  message: string;
+}
+
+export interface AuditReport {
+  instances: string[];
+  findings: AuditFinding[];
+}
+
+// Listen addresses only reachable from this machine
+const LOOPBACK_ADDRESSES = ['localhost', '::1'];
+
+export class SecurityManager {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = new ConfigManager();
+  }
+
+  /**
+   * Check one instance, or every instance, for settings that expose it to
+   * the network or leak credentials
+   */
+  async audit(name?: string): Promise<AuditReport> {
+    const names = name ? [name] : await this.configManager.listInstances();
+    const findings: AuditFinding[] = [];
+
+    for (const instanceName of names) {
+      const config = await this.configManager.getInstanceConfig(instanceName);
+      if (!config) {
+        throw new Error(`Instance '${instanceName}' not found`);
+      }
+
+      findings.push(...auditInstanceConfig(config));
+      findings.push(...await this.auditDataDirectory(config));
+    }
+
+    return { instances: names, findings };
+  }
+
+  private async auditDataDirectory(config: PostgreSQLInstanceConfig): Promise<AuditFinding[]> {
+    let mode: number;
+    try {
+      mode = (await stat(config.spec.storage.dataDirectory)).mode;
+    } catch {
+      // Not created yet or on another machine
+      return [];
+    }
+
+    return auditDataDirectoryMode(config, mode);
+  }
+}
+
+/**
+ * Findings that follow from the instance configuration alone
+ */
+export function auditInstanceConfig(config: PostgreSQLInstanceConfig): AuditFinding[] {
+  const instance = config.metadata.name;
+  const findings: AuditFinding[] = [];
+  const loopback = isLoopbackOnly(config.spec.network.bindAddress);
+
+  for (const rule of getHbaRules(config)) {
+    if (rule.type === 'local') {
+      continue;
+    }
+
+    if (rule.method !== 'reject' && isWorldOpen(rule.address || '')) {
+      findings.push({
+        instance,
+        check: 'world-open-hba',
+        // Unreachable while the server only listens on loopback, but one bindAddress change away
+        severity: loopback ? 'low' : 'high',
+        message: `pg_hba accepts connections from any address: ${formatHbaRule(rule).replace(/\s+/g, ' ')}`,
+      });
+    }
+
+    if (rule.method === 'trust') {
+      findings.push({
+        instance,
+        check: 'trust-auth',
+        severity: 'high',
+        message: `Network connections from ${rule.address} are trusted without a password`,
+      });
+    }
+  }
+
+  if (!loopback && !config.spec.security?.ssl?.enabled) {
+    findings.push({
+      instance,
+      check: 'ssl-disabled',
+      severity: 'medium',
+      message: `Listening on ${config.spec.network.bindAddress} without SSL; passwords and data cross the network unencrypted`,
+    });
+  }
+
+  if (config.spec.database.password) {
+    findings.push({
+      instance,
+      check: 'plaintext-password',
+      severity: 'high',
+      message: `The owner password is stored in plaintext in the instance file. Run "pgforge secrets migrate ${instance}"`,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * PostgreSQL only needs the data directory readable by its owner, plus group
+ * read when group access is enabled
+ */
+export function auditDataDirectoryMode(config: PostgreSQLInstanceConfig, mode: number): AuditFinding[] {
+  if ((mode & 0o027) === 0) {
+    return [];
+  }
+
+  return [{
+    instance: config.metadata.name,
+    check: 'data-directory-permissions',
+    severity: 'high',
+    message: `Data directory ${config.spec.storage.dataDirectory} has mode ${(mode & 0o777).toString(8).padStart(4, '0')}; use 0700`,
+  }];
+}
+
+export function isLoopbackOnly(bindAddress: string): boolean {
+  return bindAddress
+    .split(',')
+    .map(address => address.trim())
+    .every(address => LOOPBACK_ADDRESSES.includes(address) || address.startsWith('127.'));
+}
+
+function isWorldOpen(address: string): boolean {
+  return address === 'all' || parseCidr(address)?.prefix === 0;
+}
@@ -1,8 +1,9 @@
 import { exec, execSync } from 'child_process';
 import { promisify } from 'util';
 import { writeFile, readFile, access, unlink } from 'fs/promises';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import { cronToOnCalendar } from '../utils/schedule.js';
 
 const execAsync = promisify(exec);
 
@@ -96,16 +97,18 @@ export class ServiceManager {
   }
 
   /**
-   * Start service
+   * Start service. With wait off the start job is only queued, for callers
+   * that watch the postmaster themselves.
    */
-  async startService(instanceName: string, useUserService = false): Promise<void> {
+  async startService(instanceName: string, useUserService = false, options: { wait?: boolean } = {}): Promise<void> {
     const serviceName = this.getServiceName(instanceName);
+    const noBlock = options.wait === false ? ' --no-block' : '';
 
     try {
       if (useUserService) {
-        await execAsync(`systemctl --user start ${serviceName}`);
+        await execAsync(`systemctl --user start${noBlock} ${serviceName}`);
       } else {
-        await execAsync(`sudo systemctl start ${serviceName}`);
+        await execAsync(`sudo systemctl start${noBlock} ${serviceName}`);
       }
     } catch (error) {
       throw new Error(`Failed to start service: ${error instanceof Error ? error.message : String(error)}`);
@@ -113,22 +116,59 @@ export class ServiceManager {
   }
 
   /**
-   * Stop service
+   * Stop service. With wait off the stop job is only queued, for callers
+   * that watch the postmaster themselves.
    */
-  async stopService(instanceName: string, useUserService = false): Promise<void> {
+  async stopService(instanceName: string, useUserService = false, options: { wait?: boolean } = {}): Promise<void> {
     const serviceName = this.getServiceName(instanceName);
+    const noBlock = options.wait === false ? ' --no-block' : '';
 
     try {
       if (useUserService) {
-        await execAsync(`systemctl --user stop ${serviceName}`);
+        await execAsync(`systemctl --user stop${noBlock} ${serviceName}`);
       } else {
-        await execAsync(`sudo systemctl stop ${serviceName}`);
+        await execAsync(`sudo systemctl stop${noBlock} ${serviceName}`);
       }
     } catch (error) {
       throw new Error(`Failed to stop service: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Send a signal to the main process of the service, or to all of its
+   * processes
+   */
+  async killService(instanceName: string, signal: NodeJS.Signals, useUserService = false, who: 'main' | 'all' = 'main'): Promise<void> {
+    const serviceName = this.getServiceName(instanceName);
+
+    try {
+      if (useUserService) {
+        await execAsync(`systemctl --user kill -s ${signal} --kill-who=${who} ${serviceName}`);
+      } else {
+        await execAsync(`sudo systemctl kill -s ${signal} --kill-who=${who} ${serviceName}`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to signal service: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Reload service, which sends the postmaster SIGHUP through ExecReload
+   */
+  async reloadService(instanceName: string, useUserService = false): Promise<void> {
+    const serviceName = this.getServiceName(instanceName);
+
+    try {
+      if (useUserService) {
+        await execAsync(`systemctl --user reload ${serviceName}`);
+      } else {
+        await execAsync(`sudo systemctl reload ${serviceName}`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to reload service: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Get service status
    */
@@ -180,21 +220,178 @@ export class ServiceManager {
     const postgresPath = await this.findPostgreSQLBinary('postgres', config.spec.version);
 
     const serviceContent = this.generateServiceFile(config, postgresPath, useUserService);
+    await this.writeUnitFile(`${serviceName}.service`, serviceContent, useUserService);
+
+    return serviceFilePath;
+  }
+
+  /**
+   * Write a unit file to the user or system systemd directory
+   */
+  private async writeUnitFile(fileName: string, content: string, useUserService: boolean): Promise<string> {
+    const unitFilePath = useUserService
+      ? join(this.userSystemdPath, fileName)
+      : join(this.systemdPath, fileName);
 
     if (useUserService) {
       // Ensure user systemd directory exists
       await execAsync(`mkdir -p "${this.userSystemdPath}"`);
-      await writeFile(serviceFilePath, serviceContent);
+      await writeFile(unitFilePath, content);
     } else {
-      // Write system service file (requires sudo)
-      const tempFile = `/tmp/${serviceName}.service`;
-      await writeFile(tempFile, serviceContent);
-      await execAsync(`sudo mv "${tempFile}" "${serviceFilePath}"`);
-      await execAsync(`sudo chown root:root "${serviceFilePath}"`);
-      await execAsync(`sudo chmod 644 "${serviceFilePath}"`);
+      // Write system unit file (requires sudo)
+      const tempFile = `/tmp/${fileName}`;
+      await writeFile(tempFile, content);
+      await execAsync(`sudo mv "${tempFile}" "${unitFilePath}"`);
+      await execAsync(`sudo chown root:root "${unitFilePath}"`);
+      await execAsync(`sudo chmod 644 "${unitFilePath}"`);
     }
 
-    return serviceFilePath;
+    return unitFilePath;
+  }
+
+  /**
+   * Install and start the scheduled backup timer for an instance
+   */
+  async enableBackupTimer(config: PostgreSQLInstanceConfig, useUserService = false): Promise<string> {
+    if (!await this.isSystemdAvailable()) {
+      throw new Error('systemd is not available on this system');
+    }
+
+    const schedule = config.spec.backup?.schedule;
+    if (!schedule) {
+      throw new Error(`Instance '${config.metadata.name}' has no backup schedule configured`);
+    }
+
+    const onCalendar = cronToOnCalendar(schedule);
+    const unitName = this.getBackupUnitName(config.metadata.name);
+
+    await this.writeUnitFile(`${unitName}.service`, this.generateBackupServiceFile(config, useUserService), useUserService);
+    await this.writeUnitFile(`${unitName}.timer`, this.generateBackupTimerFile(config, onCalendar), useUserService);
+
+    try {
+      if (useUserService) {
+        await execAsync('systemctl --user daemon-reload');
+        await execAsync(`systemctl --user enable --now ${unitName}.timer`);
+      } else {
+        await execAsync('sudo systemctl daemon-reload');
+        await execAsync(`sudo systemctl enable --now ${unitName}.timer`);
+      }
+    } catch (error) {
+      throw new Error(`Failed to enable backup timer: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    console.log(`Backup timer ${unitName}.timer enabled (${onCalendar})`);
+    return onCalendar;
+  }
+
+  /**
+   * Stop and remove the scheduled backup timer for an instance
+   */
+  async disableBackupTimer(instanceName: string, useUserService = false): Promise<void> {
+    const unitName = this.getBackupUnitName(instanceName);
+    const unitDirectory = useUserService ? this.userSystemdPath : this.systemdPath;
+
+    try {
+      if (useUserService) {
+        await execAsync(`systemctl --user disable --now ${unitName}.timer`);
+      } else {
+        await execAsync(`sudo systemctl disable --now ${unitName}.timer`);
+      }
+    } catch {
+      // Timer might not be installed, ignore error
+    }
+
+    for (const fileName of [`${unitName}.timer`, `${unitName}.service`]) {
+      const unitFilePath = join(unitDirectory, fileName);
+      try {
+        if (useUserService) {
+          await unlink(unitFilePath);
+        } else {
+          await execAsync(`sudo rm -f "${unitFilePath}"`);
+        }
+      } catch {
+        // Unit file might not exist, ignore error
+      }
+    }
+
+    try {
+      await execAsync(useUserService ? 'systemctl --user daemon-reload' : 'sudo systemctl daemon-reload');
+    } catch {}
+
+    console.log(`Backup timer ${unitName}.timer disabled`);
+  }
+
+  /**
+   * Generate the oneshot service that creates a backup and prunes expired ones
+   */
+  private generateBackupServiceFile(config: PostgreSQLInstanceConfig, useUserService: boolean): string {
+    const name = config.metadata.name;
+    const pgforge = this.getPgForgeCommand();
+    const user = process.env.USER || 'postgres';
+
+    const lines = [
+      '[Unit]',
+      `Description=PgForge scheduled backup for ${name}`,
+      `After=${this.getServiceName(name)}.service`,
+      '',
+      '[Service]',
+      'Type=oneshot',
+    ];
+
+    // The catalog lives in the invoking user's ~/.pgforge
+    if (!useUserService) {
+      lines.push(`User=${user}`);
+    }
+    if (process.env.PGFORGE_HOME) {
+      lines.push(`Environment=PGFORGE_HOME=${resolve(process.env.PGFORGE_HOME)}`);
+    }
+
+    lines.push(`ExecStart=${pgforge} backup create ${name}`);
+    if (config.spec.backup?.retention) {
+      lines.push(`ExecStartPost=${pgforge} backup prune ${name}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Generate the timer that triggers the backup service
+   */
+  private generateBackupTimerFile(config: PostgreSQLInstanceConfig, onCalendar: string): string {
+    const name = config.metadata.name;
+
+    return `[Unit]
+Description=PgForge backup schedule for ${name} (${config.spec.backup?.schedule})
+
+[Timer]
+OnCalendar=${onCalendar}
+Persistent=true
+Unit=${this.getBackupUnitName(name)}.service
+
+[Install]
+WantedBy=timers.target
+`;
+  }
+
+  /**
+   * Command line that invokes this PgForge installation
+   */
+  private getPgForgeCommand(): string {
+    const script = process.argv[1];
+
+    // Running from source (bun index.ts) rather than a compiled binary
+    if (script && /\.(ts|js)$/.test(script) && !script.startsWith('/$bunfs')) {
+      return `${process.execPath} ${resolve(script)}`;
+    }
+
+    return process.execPath;
+  }
+
+  /**
+   * Get backup timer/service unit name for an instance
+   */
+  private getBackupUnitName(instanceName: string): string {
+    return `${this.getServiceName(instanceName)}-backup`;
   }
 
   /**
@@ -0,0 +1,86 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TlsManager, getSubjectAltNames } from './manager.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+
+describe('Subject Alternative Names', () => {
+  test('should always include loopback names and the hostname', () => {
+    expect(getSubjectAltNames('localhost', 'db1')).toEqual(['DNS:localhost', 'DNS:db1', 'IP:127.0.0.1', 'IP:::1']);
+  });
+
+  test('should add concrete listen addresses and skip wildcards', () => {
+    const names = getSubjectAltNames('10.0.0.5, db.example.com, *', 'db1');
+    expect(names).toContain('IP:10.0.0.5');
+    expect(names).toContain('DNS:db.example.com');
+    expect(names).not.toContain('DNS:*');
+  });
+});
+
+describe('Certificate Issuance', () => {
+  const tlsManager = new TlsManager();
+  const originalHome = process.env.PGFORGE_HOME;
+  let configDir: string;
+
+  const sslConfig = (): PostgreSQLInstanceConfig => ({
+    apiVersion: 'v1',
+    kind: 'PostgreSQLInstance',
+    metadata: { name: 'secure-db' },
+    spec: {
+      version: '17.0',
+      network: { port: 5432, bindAddress: '127.0.0.1', maxConnections: 100 },
+      storage: { dataDirectory: '/data/secure-db', logDirectory: '/logs/secure-db' },
+      database: { name: 'securedb', owner: 'secure_user', encoding: 'UTF8', locale: 'en_US.UTF-8', timezone: 'UTC' },
+      security: { ssl: { enabled: true } }
+    }
+  });
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'pgforge-tls-test-'));
+    process.env.PGFORGE_HOME = configDir;
+  });
+
+  afterEach(async () => {
+    if (originalHome === undefined) {
+      delete process.env.PGFORGE_HOME;
+    } else {
+      process.env.PGFORGE_HOME = originalHome;
+    }
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  test('should issue a managed server certificate when no paths are set', async () => {
+    const config = sslConfig();
+
+    expect(await tlsManager.ensureServerCertificate(config)).toBe(true);
+    expect(config.spec.security?.ssl?.certificatePath).toBe(join(configDir, 'tls', 'secure-db', 'server.crt'));
+    expect(config.spec.security?.ssl?.caPath).toBe(join(configDir, 'tls', 'ca.crt'));
+    expect((await stat(config.spec.security!.ssl!.keyPath!)).mode & 0o777).toBe(0o600);
+
+    // Already issued and recorded
+    expect(await tlsManager.ensureServerCertificate(config)).toBe(false);
+  });
+
+  test('should reject custom certificate paths that do not exist', async () => {
+    const config = sslConfig();
+    config.spec.security!.ssl = { enabled: true, certificatePath: '/missing/server.crt', keyPath: '/missing/server.key' };
+
+    await expect(tlsManager.ensureServerCertificate(config)).rejects.toThrow("SSL file '/missing/server.crt' does not exist");
+    await expect(tlsManager.rotateServerCertificate(config)).rejects.toThrow('uses its own certificate');
+  });
+
+  test('should issue client certificates signed by the local CA', async () => {
+    const files = await tlsManager.issueClientCertificate('app_user', join(configDir, 'clients'), { days: 30 });
+    const expiry = await tlsManager.getCertificateExpiry(files.certificatePath);
+
+    expect(files.certificatePath).toBe(join(configDir, 'clients', 'app_user.crt'));
+    expect(expiry.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+    expect(expiry.getTime()).toBeLessThan(Date.now() + 31 * 24 * 60 * 60 * 1000);
+  });
+
+  test('should reject client certificate users that are not role names', async () => {
+    await expect(tlsManager.issueClientCertificate('../server', join(configDir, 'clients'))).rejects.toThrow("Invalid user name '../server'");
+    await expect(tlsManager.issueClientCertificate('app/O=Admins', join(configDir, 'clients'))).rejects.toThrow('Invalid user name');
+  });
+});
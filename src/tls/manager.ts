@@ -0,0 +1,287 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { randomBytes } from 'crypto';
+import { access, chmod, mkdir, mkdtemp, rename, rm, writeFile } from 'fs/promises';
+import { hostname, tmpdir } from 'os';
+import { isIP } from 'net';
+import { join } from 'path';
+import { ConfigManager } from '../config/manager.js';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import { isValidUserName } from '../utils/validation.js';
+
+const execFileAsync = promisify(execFile);
+
+const CA_SUBJECT = '/CN=PgForge Local CA';
+const CA_VALIDITY_DAYS = 3650;
+// Stay within the 825 day limit clients such as macOS enforce
+const CERTIFICATE_VALIDITY_DAYS = 825;
+
+// Listen addresses that mean "every interface" and cannot appear in a certificate
+const WILDCARD_ADDRESSES = ['*', '0.0.0.0', '::'];
+
+export interface CertificateFiles {
+  certificatePath: string;
+  keyPath: string;
+}
+
+export class TlsManager {
+  private configManager: ConfigManager;
+
+  constructor() {
+    this.configManager = new ConfigManager();
+  }
+
+  getTlsDirectory(): string {
+    return join(this.configManager.getConfigDirectory(), 'tls');
+  }
+
+  getCertificateAuthority(): CertificateFiles {
+    return {
+      certificatePath: join(this.getTlsDirectory(), 'ca.crt'),
+      keyPath: join(this.getTlsDirectory(), 'ca.key'),
+    };
+  }
+
+  /**
+   * Create the local CA that signs server and client certificates, unless it
+   * already exists
+   */
+  async ensureCertificateAuthority(): Promise<CertificateFiles> {
+    const ca = this.getCertificateAuthority();
+    if (await this.fileExists(ca.certificatePath) && await this.fileExists(ca.keyPath)) {
+      return ca;
+    }
+
+    console.log('Creating PgForge certificate authority...');
+    await mkdir(this.getTlsDirectory(), { recursive: true, mode: 0o700 });
+    await this.generateKey(ca.keyPath);
+    await this.openssl([
+      'req', '-x509', '-new', '-sha256',
+      '-key', ca.keyPath,
+      '-subj', CA_SUBJECT,
+      '-days', CA_VALIDITY_DAYS.toString(),
+      '-addext', 'basicConstraints=critical,CA:TRUE',
+      '-addext', 'keyUsage=critical,keyCertSign,cRLSign',
+      '-out', ca.certificatePath,
+    ]);
+
+    return ca;
+  }
+
+  /**
+   * Make sure an SSL-enabled instance has a certificate and key. When no
+   * paths are configured a server certificate signed by the local CA is
+   * issued and its paths are written into the spec. Returns whether the spec
+   * was changed.
+   */
+  async ensureServerCertificate(config: PostgreSQLInstanceConfig): Promise<boolean> {
+    const ssl = config.spec.security?.ssl;
+    if (!ssl?.enabled) {
+      return false;
+    }
+
+    if (Boolean(ssl.certificatePath) !== Boolean(ssl.keyPath)) {
+      throw new Error('spec.security.ssl.certificatePath and keyPath must be set together');
+    }
+
+    if (ssl.certificatePath && ssl.keyPath && !this.isManagedCertificate(config)) {
+      for (const path of [ssl.certificatePath, ssl.keyPath]) {
+        if (!(await this.fileExists(path))) {
+          throw new Error(`SSL file '${path}' does not exist`);
+        }
+      }
+      return false;
+    }
+
+    const managed = this.getServerCertificatePaths(config.metadata.name);
+    if (!(await this.fileExists(managed.certificatePath)) || !(await this.fileExists(managed.keyPath))) {
+      await this.issueServerCertificate(config);
+    }
+
+    const ca = this.getCertificateAuthority();
+    const changed = ssl.certificatePath !== managed.certificatePath
+      || ssl.keyPath !== managed.keyPath
+      || ssl.caPath !== ca.certificatePath;
+
+    ssl.certificatePath = managed.certificatePath;
+    ssl.keyPath = managed.keyPath;
+    ssl.caPath = ca.certificatePath;
+
+    return changed;
+  }
+
+  /**
+   * Replace the server certificate of an instance using PgForge-managed TLS.
+   * The server picks up the new files on reload.
+   */
+  async rotateServerCertificate(config: PostgreSQLInstanceConfig): Promise<CertificateFiles> {
+    const name = config.metadata.name;
+
+    if (!config.spec.security?.ssl?.enabled) {
+      throw new Error(`SSL is not enabled for instance '${name}'`);
+    }
+    if (config.spec.security.ssl.certificatePath && !this.isManagedCertificate(config)) {
+      throw new Error(`Instance '${name}' uses its own certificate (${config.spec.security.ssl.certificatePath}); replace the files and reload instead`);
+    }
+
+    return this.issueServerCertificate(config);
+  }
+
+  /**
+   * Issue a client certificate for `cert` authentication. The common name is
+   * the database role the certificate authenticates as.
+   */
+  async issueClientCertificate(
+    user: string,
+    outputDirectory: string,
+    options: { days?: number } = {}
+  ): Promise<CertificateFiles> {
+    // The name is used in file names and the subject, so it must not carry
+    // path separators or extra RDNs
+    if (!isValidUserName(user)) {
+      throw new Error(`Invalid user name '${user}'`);
+    }
+
+    await mkdir(outputDirectory, { recursive: true, mode: 0o700 });
+
+    const files = {
+      certificatePath: join(outputDirectory, `${user}.crt`),
+      keyPath: join(outputDirectory, `${user}.key`),
+    };
+
+    await this.issueCertificate(files, {
+      subject: `/CN=${user}`,
+      extensions: ['extendedKeyUsage = clientAuth'],
+      days: options.days || CERTIFICATE_VALIDITY_DAYS,
+    });
+
+    return files;
+  }
+
+  async getCertificateExpiry(certificatePath: string): Promise<Date> {
+    const output = await this.openssl(['x509', '-noout', '-enddate', '-in', certificatePath]);
+    return new Date(output.replace(/^notAfter=/, '').trim());
+  }
+
+  getServerCertificatePaths(name: string): CertificateFiles {
+    const directory = join(this.getTlsDirectory(), name);
+    return {
+      certificatePath: join(directory, 'server.crt'),
+      keyPath: join(directory, 'server.key'),
+    };
+  }
+
+  private isManagedCertificate(config: PostgreSQLInstanceConfig): boolean {
+    return config.spec.security?.ssl?.certificatePath === this.getServerCertificatePaths(config.metadata.name).certificatePath;
+  }
+
+  private async issueServerCertificate(config: PostgreSQLInstanceConfig): Promise<CertificateFiles> {
+    const files = this.getServerCertificatePaths(config.metadata.name);
+    const host = hostname();
+
+    console.log(`Issuing TLS certificate for '${config.metadata.name}'...`);
+    await this.issueCertificate(files, {
+      subject: `/CN=${host}`,
+      extensions: [
+        'extendedKeyUsage = serverAuth',
+        `subjectAltName = ${getSubjectAltNames(config.spec.network.bindAddress, host).join(',')}`,
+      ],
+      days: CERTIFICATE_VALIDITY_DAYS,
+    });
+
+    return files;
+  }
+
+  /**
+   * Generate a key and certificate signed by the local CA. Files are written
+   * next to their destination first and renamed into place, so a running
+   * server never sees a certificate without its matching key.
+   */
+  private async issueCertificate(
+    files: CertificateFiles,
+    options: { subject: string; extensions: string[]; days: number }
+  ): Promise<void> {
+    const ca = await this.ensureCertificateAuthority();
+    const directory = join(files.certificatePath, '..');
+    await mkdir(directory, { recursive: true, mode: 0o700 });
+
+    const workDir = await mkdtemp(join(tmpdir(), 'pgforge-tls-'));
+    const pendingKey = `${files.keyPath}.new`;
+    const pendingCertificate = `${files.certificatePath}.new`;
+
+    try {
+      const csrPath = join(workDir, 'request.csr');
+      const extensionsPath = join(workDir, 'extensions.cnf');
+
+      await writeFile(extensionsPath, [
+        'basicConstraints = critical,CA:FALSE',
+        'keyUsage = critical,digitalSignature,keyEncipherment',
+        ...options.extensions,
+      ].join('\n') + '\n');
+
+      await this.generateKey(pendingKey);
+      await this.openssl(['req', '-new', '-key', pendingKey, '-subj', options.subject, '-out', csrPath]);
+      await this.openssl([
+        'x509', '-req', '-sha256',
+        '-in', csrPath,
+        '-CA', ca.certificatePath,
+        '-CAkey', ca.keyPath,
+        '-set_serial', `0x${randomBytes(16).toString('hex')}`,
+        '-days', options.days.toString(),
+        '-extfile', extensionsPath,
+        '-out', pendingCertificate,
+      ]);
+
+      await rename(pendingKey, files.keyPath);
+      await rename(pendingCertificate, files.certificatePath);
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+      await rm(pendingKey, { force: true });
+      await rm(pendingCertificate, { force: true });
+    }
+  }
+
+  private async generateKey(keyPath: string): Promise<void> {
+    await this.openssl(['genpkey', '-algorithm', 'EC', '-pkeyopt', 'ec_paramgen_curve:P-256', '-out', keyPath]);
+    // PostgreSQL refuses keys readable by group or others
+    await chmod(keyPath, 0o600);
+  }
+
+  private async openssl(args: string[]): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('openssl', args);
+      return stdout.toString();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        throw new Error('openssl not found. Install OpenSSL to generate TLS certificates');
+      }
+      const details = error?.stderr?.toString().trim() || (error instanceof Error ? error.message : String(error));
+      throw new Error(`openssl ${args[0]} failed: ${details}`);
+    }
+  }
+
+  private async fileExists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Subject alternative names for a server certificate: the loopback names,
+ * the machine's hostname and every concrete address PostgreSQL listens on
+ */
+export function getSubjectAltNames(bindAddress: string, host: string): string[] {
+  const names = ['localhost', host, '127.0.0.1', '::1'];
+
+  for (const address of bindAddress.split(',').map(a => a.trim())) {
+    if (address && !WILDCARD_ADDRESSES.includes(address)) {
+      names.push(address);
+    }
+  }
+
+  return [...new Set(names)].map(name => isIP(name) ? `IP:${name}` : `DNS:${name}`);
+}
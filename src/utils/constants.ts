@@ -0,0 +1,48 @@
+import type { HbaRule, RolePrivilege } from '../config/types.js';
+
+// log_statement values from least to most verbose; each includes the ones before it
+export const LOG_STATEMENT_LEVELS = ['none', 'ddl', 'mod', 'all'];
+
+export const LOG_MIN_MESSAGES_LEVELS = [
+  'debug5', 'debug4', 'debug3', 'debug2', 'debug1', 'info', 'notice', 'warning', 'error', 'log', 'fatal', 'panic',
+];
+
+export const PGAUDIT_CLASSES = ['read', 'write', 'function', 'role', 'ddl', 'misc', 'misc_set', 'all', 'none'];
+
+export const HBA_TYPES: HbaRule['type'][] = ['local', 'host', 'hostssl', 'hostnossl'];
+
+export const HBA_METHODS: HbaRule['method'][] = [
+  'trust', 'reject', 'md5', 'scram-sha-256', 'password', 'peer', 'ident', 'cert', 'ldap', 'radius', 'pam', 'gss', 'sspi',
+];
+
+// Settings spec.parameters may not override, with where to configure them instead
+export const MANAGED_PARAMETERS: Record<string, string> = {
+  port: 'spec.network.port',
+  listen_addresses: 'spec.network.bindAddress',
+  max_connections: 'spec.network.maxConnections',
+  unix_socket_directories: 'PgForge',
+  data_directory: 'PgForge',
+  config_file: 'PgForge',
+  hba_file: 'PgForge',
+  ident_file: 'PgForge',
+  log_directory: 'spec.storage.logDirectory',
+  archive_command: 'spec.storage.archiveDirectory',
+  restore_command: 'spec.storage.archiveDirectory',
+  ssl_cert_file: 'spec.security.ssl.certificatePath',
+  ssl_key_file: 'spec.security.ssl.keyPath',
+  ssl_ca_file: 'spec.security.ssl.caPath',
+  password_encryption: 'spec.security.authentication.method',
+};
+
+// Privileges GRANT accepts for each kind of object
+export const PRIVILEGES: Record<RolePrivilege['on'], string[]> = {
+  database: ['CONNECT', 'CREATE', 'TEMPORARY', 'TEMP', 'ALL'],
+  schema: ['USAGE', 'CREATE', 'ALL'],
+  tables: ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'TRUNCATE', 'REFERENCES', 'TRIGGER', 'ALL'],
+  sequences: ['USAGE', 'SELECT', 'UPDATE', 'ALL'],
+  functions: ['EXECUTE', 'ALL'],
+};
+
+export type SecretProviderName = 'file' | 'secret-service' | 'pass';
+
+export const SECRET_PROVIDERS: SecretProviderName[] = ['file', 'secret-service', 'pass'];
@@ -0,0 +1,42 @@
+import { describe, test, expect } from 'bun:test';
+import { diffObjects, diffLines } from './diff.js';
+
+describe('Object Diff', () => {
+  test('should report changed, added and removed fields by path', () => {
+    const changes = diffObjects(
+      { network: { port: 5432, bindAddress: '127.0.0.1' }, backup: { enabled: false } },
+      { network: { port: 5433, bindAddress: '127.0.0.1' }, performance: { workMem: '8MB' } }
+    );
+
+    expect(changes).toEqual([
+      { path: 'backup', before: { enabled: false }, after: undefined },
+      { path: 'network.port', before: 5432, after: 5433 },
+      { path: 'performance', before: undefined, after: { workMem: '8MB' } },
+    ]);
+  });
+
+  test('should compare arrays as a whole', () => {
+    expect(diffObjects({ hosts: ['a', 'b'] }, { hosts: ['a', 'b'] })).toEqual([]);
+    expect(diffObjects({ hosts: ['a'] }, { hosts: ['a', 'b'] })).toEqual([
+      { path: 'hosts', before: ['a'], after: ['a', 'b'] },
+    ]);
+  });
+});
+
+describe('Line Diff', () => {
+  test('should mark added and removed lines', () => {
+    const changes = diffLines('port = 5432\nwork_mem = 4MB\nssl = on\n', 'port = 5433\nwork_mem = 4MB\nssl = on\n');
+
+    expect(changes).toEqual([
+      { type: 'removed', line: 'port = 5432' },
+      { type: 'added', line: 'port = 5433' },
+      { type: 'unchanged', line: 'work_mem = 4MB' },
+      { type: 'unchanged', line: 'ssl = on' },
+    ]);
+  });
+
+  test('should handle empty inputs', () => {
+    expect(diffLines('', 'a\n')).toEqual([{ type: 'added', line: 'a' }]);
+    expect(diffLines('a\n', '')).toEqual([{ type: 'removed', line: 'a' }]);
+  });
+});
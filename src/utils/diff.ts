@@ -0,0 +1,75 @@
+export interface ValueChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface LineChange {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+/**
+ * Field-by-field differences between two plain objects, keyed by dotted
+ * path. Arrays are compared as a whole.
+ */
+export function diffObjects(before: unknown, after: unknown, path = ''): ValueChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap(key => diffObjects(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  return [{ path, before, after }];
+}
+
+/**
+ * Line diff based on the longest common subsequence of both texts
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before === '' ? [] : before.replace(/\n$/, '').split('\n');
+  const b = after === '' ? [] : after.replace(/\n$/, '').split('\n');
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i]![j] = a[i] === b[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: 'unchanged', line: a[i]! });
+      i++;
+      j++;
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      changes.push({ type: 'removed', line: a[i]! });
+      i++;
+    } else {
+      changes.push({ type: 'added', line: b[j]! });
+      j++;
+    }
+  }
+
+  while (i < a.length) {
+    changes.push({ type: 'removed', line: a[i++]! });
+  }
+  while (j < b.length) {
+    changes.push({ type: 'added', line: b[j++]! });
+  }
+
+  return changes;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
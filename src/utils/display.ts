@@ -1,5 +1,11 @@
 import chalk from 'chalk';
-import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import type { PostgreSQLInstanceConfig, BackupCatalogEntry, InstanceTemplate } from '../config/types.js';
+import type { ConfigPlan, ReloadReport } from '../instance/conf.js';
+import type { AuditReport } from '../security/manager.js';
+import type { DatabaseInfo, RoleInfo } from '../database/manager.js';
+import type { InstalledExtension, AvailableExtension } from '../extension/manager.js';
+import { diffLines } from './diff.js';
+import type { ValueChange } from './diff.js';
 
 export function displayInstanceTable(instances: PostgreSQLInstanceConfig[]): void {
   if (instances.length === 0) {
@@ -46,6 +52,9 @@ export function displayInstanceDetails(instance: PostgreSQLInstanceConfig): void
 
   console.log(chalk.bold('Status:'));
   console.log(`  State: ${getStatusDisplay(instance.status?.state || 'unknown')}`);
+  if (instance.status?.message) {
+    console.log(`  Note: ${chalk.yellow(instance.status.message)}`);
+  }
   if (instance.status?.pid) {
     console.log(`  PID: ${instance.status.pid}`);
   }
@@ -107,6 +116,294 @@ export function displayInstanceDetails(instance: PostgreSQLInstanceConfig): void
   console.log();
 }
 
+export function displayBackupTable(backups: BackupCatalogEntry[]): void {
+  if (backups.length === 0) {
+    console.log(chalk.gray('No backups found. Use "pgforge backup create" to create one.'));
+    return;
+  }
+
+  console.log();
+  const headers = ['ID', 'TYPE', 'FORMAT', 'SIZE', 'VERSION', 'CREATED'];
+  console.log(headers.map(h => chalk.bold(h)).join('  '));
+  console.log(chalk.gray('─'.repeat(95)));
+
+  for (const backup of backups) {
+    const row = [
+      chalk.cyan(backup.id.padEnd(32)),
+      backup.type.padEnd(9),
+      backup.format.padEnd(10),
+      formatBytes(backup.size).padEnd(10),
+      backup.postgresqlVersion.padEnd(8),
+      new Date(backup.createdAt).toLocaleString(),
+    ].join('  ');
+
+    console.log(row);
+  }
+
+  console.log();
+}
+
+export function displayTemplateTable(templates: InstanceTemplate[]): void {
+  if (templates.length === 0) {
+    console.log(chalk.gray('No templates found. Use "pgforge template create" to create one.'));
+    return;
+  }
+
+  console.log();
+  const headers = ['NAME', 'SOURCE', 'EXTENDS', 'DESCRIPTION'];
+  console.log(headers.map(h => chalk.bold(h)).join('  '));
+  console.log(chalk.gray('─'.repeat(80)));
+
+  for (const template of templates) {
+    const row = [
+      chalk.cyan(template.name.padEnd(20)),
+      (template.source || 'file').padEnd(8),
+      (template.extends || '-').padEnd(14),
+      template.description || chalk.gray('-'),
+    ].join('  ');
+
+    console.log(row);
+  }
+
+  console.log();
+}
+
+export function displayDatabaseTable(databases: DatabaseInfo[]): void {
+  console.log();
+  const headers = ['NAME', 'OWNER', 'ENCODING', 'SIZE'];
+  console.log(headers.map(h => chalk.bold(h)).join('  '));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  for (const database of databases) {
+    const row = [
+      chalk.cyan(database.name.padEnd(24)),
+      database.owner.padEnd(20),
+      database.encoding.padEnd(10),
+      database.size,
+    ].join('  ');
+
+    console.log(row);
+  }
+
+  console.log();
+}
+
+export function displayRoleTable(roles: RoleInfo[]): void {
+  console.log();
+  const headers = ['NAME', 'ATTRIBUTES', 'MEMBER OF'];
+  console.log(headers.map(h => chalk.bold(h)).join('  '));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  for (const role of roles) {
+    const attributes = [
+      role.superuser && 'superuser',
+      role.login && 'login',
+      role.createdb && 'createdb',
+      role.createrole && 'createrole',
+      role.connectionLimit >= 0 && `limit ${role.connectionLimit}`,
+    ].filter(Boolean).join(', ');
+
+    const row = [
+      chalk.cyan(role.name.padEnd(24)),
+      (attributes || '-').padEnd(30),
+      role.memberOf.join(', ') || chalk.gray('-'),
+    ].join('  ');
+
+    console.log(row);
+  }
+
+  console.log();
+}
+
+export function displayExtensionTable(extensions: InstalledExtension[]): void {
+  if (extensions.length === 0) {
+    console.log(chalk.gray('No extensions installed. Use "pgforge extension enable" to add one.'));
+    return;
+  }
+
+  console.log();
+  const headers = ['NAME', 'VERSION', 'SCHEMA', 'DATABASE'];
+  console.log(headers.map(h => chalk.bold(h)).join('  '));
+  console.log(chalk.gray('─'.repeat(70)));
+
+  for (const extension of extensions) {
+    const row = [
+      chalk.cyan(extension.name.padEnd(24)),
+      extension.version.padEnd(10),
+      extension.schema.padEnd(14),
+      extension.database,
+    ].join('  ');
+
+    console.log(row);
+  }
+
+  console.log();
+}
+
+export function displayAvailableExtensionTable(extensions: AvailableExtension[]): void {
+  console.log();
+  const headers = ['NAME', 'DEFAULT', 'INSTALLED', 'DESCRIPTION'];
+  console.log(headers.map(h => chalk.bold(h)).join('  '));
+  console.log(chalk.gray('─'.repeat(95)));
+
+  for (const extension of extensions) {
+    const row = [
+      chalk.cyan(extension.name.padEnd(24)),
+      extension.defaultVersion.padEnd(8),
+      (extension.installedVersion || '-').padEnd(10),
+      chalk.gray(extension.description),
+    ].join('  ');
+
+    console.log(row);
+  }
+
+  console.log();
+}
+
+export function displayAuditReport(report: AuditReport): void {
+  if (report.findings.length === 0) {
+    console.log(chalk.green(`✓ No issues found in ${report.instances.length} instance(s)`));
+    return;
+  }
+
+  const severityColors = { high: chalk.red, medium: chalk.yellow, low: chalk.gray };
+
+  console.log();
+  for (const instance of report.instances) {
+    const findings = report.findings.filter(finding => finding.instance === instance);
+    if (findings.length === 0) {
+      continue;
+    }
+
+    console.log(chalk.bold(instance));
+    for (const finding of findings) {
+      const color = severityColors[finding.severity];
+      console.log(`  ${color(finding.severity.toUpperCase().padEnd(6))} ${chalk.cyan(finding.check.padEnd(26))} ${finding.message}`);
+    }
+    console.log();
+  }
+
+  console.log(`${report.findings.length} issue(s) found`);
+}
+
+export function displaySettingChanges(plan: ConfigPlan): void {
+  if (plan.settings.length === 0 && !plan.hbaChanged) {
+    console.log(chalk.gray('No configuration changes.'));
+    return;
+  }
+
+  console.log();
+  if (plan.settings.length > 0) {
+    console.log(chalk.bold('postgresql.conf:'));
+    for (const setting of plan.settings) {
+      const before = setting.before === undefined ? chalk.gray('(unset)') : setting.before;
+      const after = setting.after === undefined ? chalk.gray('(unset)') : setting.after;
+      const action = setting.action === 'restart' ? chalk.yellow('restart') : chalk.green('reload');
+      console.log(`  ${setting.name.padEnd(28)} ${before} → ${after}  [${action}]`);
+    }
+  }
+
+  if (plan.hbaChanged) {
+    console.log(chalk.bold('pg_hba.conf:'));
+    console.log(`  rules changed  [${chalk.green('reload')}]`);
+  }
+
+  console.log();
+}
+
+export function displayReloadReport(report: ReloadReport): void {
+  console.log();
+  if (report.applied.length === 0 && report.pendingRestart.length === 0 && report.rejected.length === 0) {
+    console.log(chalk.gray('No settings changed.'));
+    console.log();
+    return;
+  }
+
+  if (report.applied.length > 0) {
+    console.log(chalk.bold('Applied:'));
+    for (const setting of report.applied) {
+      const before = setting.before === undefined ? chalk.gray('(unset)') : setting.before;
+      const after = setting.after === undefined ? chalk.gray('(unset)') : setting.after;
+      console.log(`  ${chalk.green('✓')} ${setting.name.padEnd(28)} ${before} → ${after}`);
+    }
+  }
+
+  if (report.pendingRestart.length > 0) {
+    console.log(chalk.bold('Pending restart:'));
+    for (const setting of report.pendingRestart) {
+      console.log(`  ${chalk.yellow('↻')} ${setting.name.padEnd(28)} ${chalk.gray(`still ${setting.setting}`)}`);
+    }
+  }
+
+  if (report.rejected.length > 0) {
+    console.log(chalk.bold('Rejected:'));
+    for (const error of report.rejected) {
+      const location = error.line ? `${error.file}:${error.line}` : error.file;
+      console.log(`  ${chalk.red('✗')} ${location}${error.name ? ` (${error.name})` : ''}: ${error.error}`);
+    }
+  }
+
+  console.log();
+}
+
+export function displayConfigDiff(specChanges: ValueChange[], plan: ConfigPlan): void {
+  console.log();
+  console.log(chalk.bold('Spec changes:'));
+  if (specChanges.length === 0) {
+    console.log(chalk.gray('  none'));
+  }
+  for (const change of specChanges) {
+    console.log(`  ${chalk.cyan(change.path)}: ${formatDiffValue(change.before)} → ${formatDiffValue(change.after)}`);
+  }
+
+  for (const [file, contents] of [['postgresql.conf', plan.postgresqlConf], ['pg_hba.conf', plan.pgHbaConf]] as const) {
+    const changed = diffLines(contents.current, contents.desired).filter(change => change.type !== 'unchanged');
+
+    console.log();
+    console.log(chalk.bold(`${file}:`));
+    if (changed.length === 0) {
+      console.log(chalk.gray('  no changes'));
+    }
+    for (const change of changed) {
+      console.log(change.type === 'added' ? chalk.green(`+ ${change.line}`) : chalk.red(`- ${change.line}`));
+    }
+  }
+
+  console.log();
+  if (plan.settings.length === 0 && !plan.hbaChanged) {
+    console.log(chalk.gray('Nothing to apply.'));
+  } else if (plan.restartRequired) {
+    const settings = plan.settings.filter(setting => setting.action === 'restart').map(setting => setting.name);
+    console.log(chalk.yellow(`Restart required (${settings.join(', ')})`));
+  } else {
+    console.log(chalk.green('Changes can be applied with a reload'));
+  }
+  if (!plan.running) {
+    console.log(chalk.gray('Instance is not running, changes take effect on next start.'));
+  }
+  console.log();
+}
+
+function formatDiffValue(value: unknown): string {
+  if (value === undefined) {
+    return chalk.gray('(unset)');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${unit === 0 ? value : value.toFixed(1)}${units[unit]}`;
+}
+
 export function displaySystemStatus(): void {
   console.log();
   console.log(chalk.bold('PgForge System Status'));
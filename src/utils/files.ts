@@ -0,0 +1,26 @@
+import { open, rename, unlink } from 'fs/promises';
+import { randomBytes } from 'crypto';
+
+/**
+ * Write a file by writing a temporary file next to it and renaming it into
+ * place, so readers see either the old or the new content and never a
+ * partial write
+ */
+export async function writeFileAtomic(path: string, content: string, mode = 0o644): Promise<void> {
+  // Unique per call, as writers in the same process may overlap
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    const handle = await open(tempPath, 'w', mode);
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await rename(tempPath, path);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
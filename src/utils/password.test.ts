@@ -0,0 +1,34 @@
+import { describe, test, expect } from 'bun:test';
+import { createHash, createHmac } from 'crypto';
+import { encryptPassword, md5Verifier, scramSha256Verifier } from './password.js';
+
+describe('Password Verifiers', () => {
+  test('should build md5 verifiers from password and user name', () => {
+    expect(md5Verifier('secret', 'app_user')).toBe('md5' + createHash('md5').update('secretapp_user').digest('hex'));
+    expect(encryptPassword('secret', 'app_user', 'md5')).toBe(md5Verifier('secret', 'app_user'));
+  });
+
+  test('should build SCRAM verifiers that match the RFC 7677 exchange', () => {
+    const verifier = scramSha256Verifier('pencil', Buffer.from('W22ZaJ0SNY7soEsUEjb6gQ==', 'base64'));
+    const match = /^SCRAM-SHA-256\$4096:W22ZaJ0SNY7soEsUEjb6gQ==\$([^:]+):(.+)$/.exec(verifier);
+    expect(match).not.toBeNull();
+
+    const storedKey = Buffer.from(match![1]!, 'base64');
+    const serverKey = Buffer.from(match![2]!, 'base64');
+    const nonce = 'rOprNGfwEbeRWgbNEkqO%hvYDpWUa2RaTCAfuxFIlj)hNlF$k0';
+    const authMessage = `n=user,r=rOprNGfwEbeRWgbNEkqO,r=${nonce},s=W22ZaJ0SNY7soEsUEjb6gQ==,i=4096,c=biws,r=${nonce}`;
+
+    // The server signature of the exchange proves the server key
+    expect(createHmac('sha256', serverKey).update(authMessage).digest('base64')).toBe('6rriTRBi23WpRR/wtup+mMhUZUn/dB5nLTJRsjl95G4=');
+
+    // The client proof recovers a client key that hashes to the stored key
+    const signature = createHmac('sha256', storedKey).update(authMessage).digest();
+    const proof = Buffer.from('dHzbZapWIk4jUhN+Ute9ytag9zjfMHgsqmmiz7AndVQ=', 'base64');
+    const clientKey = Buffer.from(proof.map((byte, i) => byte ^ signature[i]!));
+    expect(createHash('sha256').update(clientKey).digest().equals(storedKey)).toBe(true);
+  });
+
+  test('should salt every SCRAM verifier differently', () => {
+    expect(encryptPassword('secret', 'app_user', 'scram-sha-256')).not.toBe(encryptPassword('secret', 'app_user', 'scram-sha-256'));
+  });
+});
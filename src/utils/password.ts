@@ -0,0 +1,54 @@
+import { createHash, createHmac, pbkdf2Sync, randomBytes } from 'crypto';
+
+const PASSWORD_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * Random alphanumeric password, safe to embed in SQL literals and
+ * connection strings without escaping
+ */
+export function generateSecurePassword(length: number = 16): string {
+  let password = '';
+
+  // Use crypto.randomBytes for cryptographically secure random generation
+  const bytes = randomBytes(length);
+
+  for (let i = 0; i < length; i++) {
+    const byte = bytes[i];
+    if (byte === undefined) {
+      throw new Error('Failed to generate secure random bytes');
+    }
+    password += PASSWORD_CHARACTERS[byte % PASSWORD_CHARACTERS.length];
+  }
+
+  return password;
+}
+
+// Iteration count PostgreSQL uses for SCRAM verifiers (scram_iterations)
+const SCRAM_ITERATIONS = 4096;
+
+/**
+ * Hash a password the way the server would for ALTER ROLE ... PASSWORD, so
+ * only the hash is sent. The plaintext then never reaches statement or
+ * pgaudit logs.
+ */
+export function encryptPassword(password: string, user: string, method: 'scram-sha-256' | 'md5'): string {
+  return method === 'md5' ? md5Verifier(password, user) : scramSha256Verifier(password);
+}
+
+export function md5Verifier(password: string, user: string): string {
+  return 'md5' + createHash('md5').update(password + user).digest('hex');
+}
+
+/**
+ * SCRAM-SHA-256 verifier in the format of pg_authid.rolpassword
+ */
+export function scramSha256Verifier(password: string, salt: Buffer = randomBytes(16), iterations: number = SCRAM_ITERATIONS): string {
+  // The server applies SASLprep, which leaves ASCII alone; NFKC covers the
+  // normalisation it does for everything else
+  const salted = pbkdf2Sync(password.normalize('NFKC'), salt, iterations, 32, 'sha256');
+  const clientKey = createHmac('sha256', salted).update('Client Key').digest();
+  const storedKey = createHash('sha256').update(clientKey).digest();
+  const serverKey = createHmac('sha256', salted).update('Server Key').digest();
+
+  return `SCRAM-SHA-256$${iterations}:${salt.toString('base64')}$${storedKey.toString('base64')}:${serverKey.toString('base64')}`;
+}
@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'bun:test';
+import { parsePostmasterPid } from './postgres.js';
+
+describe('postmaster.pid Parsing', () => {
+  test('should read the PID, port, socket directory and status', () => {
+    const content = [
+      '41235',
+      '/home/user/.pgforge/data/myapp-db',
+      '1760875200',
+      '5433',
+      '/home/user/.pgforge/data/myapp-db/sockets',
+      '127.0.0.1',
+      '  5433001     32768',
+      'ready   ',
+      '',
+    ].join('\n');
+
+    expect(parsePostmasterPid(content)).toEqual({
+      pid: 41235,
+      dataDirectory: '/home/user/.pgforge/data/myapp-db',
+      startTime: 1760875200,
+      port: 5433,
+      socketDirectory: '/home/user/.pgforge/data/myapp-db/sockets',
+      listenAddresses: '127.0.0.1',
+      status: 'ready',
+    });
+  });
+
+  test('should leave the status unset while the file is still being written', () => {
+    const parsed = parsePostmasterPid('41235\n/data/myapp-db\n1760875200\n5433\n');
+    expect(parsed?.pid).toBe(41235);
+    expect(parsed?.port).toBe(5433);
+    expect(parsed?.status).toBeUndefined();
+  });
+
+  test('should reject empty or malformed files', () => {
+    expect(parsePostmasterPid('')).toBeNull();
+    expect(parsePostmasterPid('not-a-pid\n/data\n')).toBeNull();
+  });
+});
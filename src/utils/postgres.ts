@@ -0,0 +1,241 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { access, readFile } from 'fs/promises';
+import { join } from 'path';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface PsqlOptions {
+  user?: string;
+  password?: string;
+  database?: string;
+}
+
+/**
+ * Find a PostgreSQL binary for the given version, preferring version-specific
+ * installation directories over whatever is first in PATH.
+ */
+export async function findPostgreSQLBinary(binary: string, version: string): Promise<string> {
+  // Extract major version from full version (e.g., "15.13" -> "15")
+  const majorVersion = version.split('.')[0];
+
+  // Common PostgreSQL installation paths, ordered by preference
+  const paths = [
+    // Try exact version first
+    `/usr/lib/postgresql/${version}/bin/${binary}`,
+    `/usr/pgsql-${version}/bin/${binary}`,
+    `/opt/postgresql/${version}/bin/${binary}`,
+    // Try major version
+    `/usr/lib/postgresql/${majorVersion}/bin/${binary}`,
+    `/usr/pgsql-${majorVersion}/bin/${binary}`,
+    `/opt/postgresql/${majorVersion}/bin/${binary}`,
+    // Try generic paths
+    `/usr/bin/${binary}`,
+    `/usr/local/bin/${binary}`,
+    `/usr/local/pgsql/bin/${binary}`,
+    `/opt/postgresql/bin/${binary}`,
+  ];
+
+  for (const path of paths) {
+    try {
+      await access(path);
+      return path;
+    } catch {
+      continue;
+    }
+  }
+
+  // Fall back to PATH lookup, same as the system check
+  try {
+    const { stdout } = await execFileAsync('which', [binary]);
+    const whichResult = stdout.trim();
+    if (whichResult) {
+      return whichResult;
+    }
+  } catch {
+    // which failed, continue with original error
+  }
+
+  throw new Error(`PostgreSQL binary '${binary}' not found for version ${version}. Tried paths: ${paths.join(', ')}`);
+}
+
+/**
+ * Unix socket directory of an instance. Every PgForge instance listens on a
+ * socket inside its own data directory to avoid system permission issues.
+ */
+export function getSocketDirectory(config: PostgreSQLInstanceConfig): string {
+  return join(config.spec.storage.dataDirectory, 'sockets');
+}
+
+/**
+ * Environment for running libpq-based tools against an instance socket.
+ */
+export function getConnectionEnv(config: PostgreSQLInstanceConfig, password?: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {
+    ...process.env,
+    PGHOST: getSocketDirectory(config),
+    PGPORT: config.spec.network.port.toString(),
+  };
+
+  if (password) {
+    env.PGPASSWORD = password;
+  }
+
+  return env;
+}
+
+/**
+ * Run a libpq-based tool (pg_dump, pg_restore, pg_basebackup, ...) against
+ * an instance. Arguments are passed without a shell so no quoting is needed.
+ */
+export async function runPostgreSQLTool(
+  config: PostgreSQLInstanceConfig,
+  binary: string,
+  args: string[],
+  password?: string
+): Promise<{ stdout: string; stderr: string }> {
+  const binaryPath = await findPostgreSQLBinary(binary, config.spec.version);
+
+  try {
+    const { stdout, stderr } = await execFileAsync(binaryPath, args, {
+      env: getConnectionEnv(config, password),
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    return { stdout: stdout.toString(), stderr: stderr.toString() };
+  } catch (error: any) {
+    const details = error?.stderr?.toString().trim() || (error instanceof Error ? error.message : String(error));
+    throw new Error(`${binary} failed: ${details}`);
+  }
+}
+
+/**
+ * Execute SQL over the instance socket with psql and return unaligned,
+ * tuples-only output.
+ */
+export async function runPsql(config: PostgreSQLInstanceConfig, sql: string, options: PsqlOptions = {}): Promise<string> {
+  const args = [
+    '-X',
+    '-v', 'ON_ERROR_STOP=1',
+    '-U', options.user || 'postgres',
+    '-d', options.database || 'postgres',
+    '-tAc', sql,
+  ];
+
+  const { stdout } = await runPostgreSQLTool(config, 'psql', args, options.password);
+  return stdout.trim();
+}
+
+/**
+ * Contents of postmaster.pid, which the postmaster writes into the data
+ * directory while it runs
+ */
+export interface PostmasterPid {
+  pid: number;
+  dataDirectory: string;
+  startTime?: number;
+  port?: number;
+  socketDirectory?: string;
+  listenAddresses?: string;
+  // starting, stopping, ready or standby; only written by PostgreSQL 10 and later
+  status?: string;
+}
+
+export function parsePostmasterPid(content: string): PostmasterPid | null {
+  const lines = content.split('\n').map(line => line.trim());
+  const pid = parseInt(lines[0] || '');
+  if (isNaN(pid) || pid <= 0) {
+    return null;
+  }
+
+  const number = (value: string | undefined) => value && !isNaN(parseInt(value)) ? parseInt(value) : undefined;
+
+  return {
+    pid,
+    dataDirectory: lines[1] || '',
+    startTime: number(lines[2]),
+    port: number(lines[3]),
+    socketDirectory: lines[4] || undefined,
+    listenAddresses: lines[5] || undefined,
+    status: lines[7] || undefined,
+  };
+}
+
+/**
+ * Read postmaster.pid from a data directory; null when the server is not
+ * running or the file is being rewritten
+ */
+export async function readPostmasterPid(dataDirectory: string): Promise<PostmasterPid | null> {
+  try {
+    return parsePostmasterPid(await readFile(join(dataDirectory, 'postmaster.pid'), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the instance accepts connections on its socket, according to pg_isready
+ */
+export async function isServerReady(config: PostgreSQLInstanceConfig): Promise<boolean> {
+  try {
+    await runPostgreSQLTool(config, 'pg_isready', ['-q']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Quote a role, database or other name for use in SQL
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export interface ParameterDefinition {
+  name: string;
+  context: string;
+  type: 'bool' | 'integer' | 'real' | 'string' | 'enum';
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Parse `postgres --describe-config` output: one tab-separated line per
+ * setting with name, context, group, type, default, min and max.
+ */
+export function parseDescribeConfig(output: string): Map<string, ParameterDefinition> {
+  const definitions = new Map<string, ParameterDefinition>();
+
+  for (const line of output.split('\n')) {
+    const [name, context, , vartype, , min, max] = line.split('\t');
+    if (!name || !context || !vartype) {
+      continue;
+    }
+
+    const definition: ParameterDefinition = {
+      name: name.toLowerCase(),
+      context,
+      type: vartype.toLowerCase() === 'boolean' ? 'bool' : vartype.toLowerCase() as ParameterDefinition['type'],
+    };
+    if (min !== undefined && min !== '') definition.min = Number(min);
+    if (max !== undefined && max !== '') definition.max = Number(max);
+
+    definitions.set(definition.name, definition);
+  }
+
+  return definitions;
+}
+
+/**
+ * Settings known to the server binary of a PostgreSQL version
+ */
+export async function describePostgreSQLConfig(version: string): Promise<Map<string, ParameterDefinition>> {
+  const postgresPath = await findPostgreSQLBinary('postgres', version);
+  const { stdout } = await execFileAsync(postgresPath, ['--describe-config'], { maxBuffer: 16 * 1024 * 1024 });
+  return parseDescribeConfig(stdout.toString());
+}
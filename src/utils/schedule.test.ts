@@ -0,0 +1,45 @@
+import { describe, test, expect } from 'bun:test';
+import { cronToOnCalendar, isValidCronExpression, parseRetention, isValidRetention } from './schedule.js';
+
+describe('Cron Translation', () => {
+  test('should translate daily and twice-daily schedules', () => {
+    expect(cronToOnCalendar('0 2 * * *')).toBe('*-*-* 02:00:00');
+    expect(cronToOnCalendar('0 1,13 * * *')).toBe('*-*-* 01,13:00:00');
+  });
+
+  test('should translate steps, ranges and weekdays', () => {
+    expect(cronToOnCalendar('*/15 * * * *')).toBe('*-*-* *:00/15:00');
+    expect(cronToOnCalendar('30 3 * * 1-5')).toBe('Mon..Fri *-*-* 03:30:00');
+    expect(cronToOnCalendar('0 4 * * 0,6')).toBe('Sun,Sat *-*-* 04:00:00');
+    expect(cronToOnCalendar('0 4 * * SUN')).toBe('Sun *-*-* 04:00:00');
+    expect(cronToOnCalendar('0 0 1 JAN *')).toBe('*-01-01 00:00:00');
+  });
+
+  test('should translate macros', () => {
+    expect(cronToOnCalendar('@daily')).toBe('daily');
+    expect(cronToOnCalendar('@weekly')).toBe('weekly');
+  });
+
+  test('should reject invalid expressions', () => {
+    expect(isValidCronExpression('0 2 * *')).toBe(false); // too few fields
+    expect(isValidCronExpression('60 2 * * *')).toBe(false); // minute out of range
+    expect(isValidCronExpression('0 2 1 * 1')).toBe(false); // both day fields
+    expect(isValidCronExpression('0 2 * * funday')).toBe(false);
+    expect(isValidCronExpression('0 2 * * *')).toBe(true);
+  });
+});
+
+describe('Retention Parsing', () => {
+  test('should parse hours, days and weeks', () => {
+    expect(parseRetention('12h')).toBe(12 * 60 * 60 * 1000);
+    expect(parseRetention('7d')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseRetention('2w')).toBe(14 * 24 * 60 * 60 * 1000);
+  });
+
+  test('should reject invalid retention values', () => {
+    expect(isValidRetention('7')).toBe(false);
+    expect(isValidRetention('7 days')).toBe(false);
+    expect(isValidRetention('-1d')).toBe(false);
+    expect(isValidRetention('30d')).toBe(true);
+  });
+});
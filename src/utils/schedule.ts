@@ -0,0 +1,168 @@
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': 'hourly',
+  '@daily': 'daily',
+  '@midnight': 'daily',
+  '@weekly': 'weekly',
+  '@monthly': 'monthly',
+  '@yearly': 'yearly',
+  '@annually': 'yearly',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+const RETENTION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const MINUTE: CronField = { name: 'minute', min: 0, max: 59 };
+const HOUR: CronField = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: CronField = { name: 'day of month', min: 1, max: 31 };
+const MONTH: CronField = { name: 'month', min: 1, max: 12, names: MONTHS, nameOffset: 1 };
+const DAY_OF_WEEK: CronField = { name: 'day of week', min: 0, max: 7, names: WEEKDAYS.map(day => day.toUpperCase()), nameOffset: 0 };
+
+/**
+ * Translate a five-field cron expression (or @daily style macro) into a
+ * systemd OnCalendar expression.
+ */
+export function cronToOnCalendar(expression: string): string {
+  const trimmed = expression.trim();
+
+  const macro = CRON_MACROS[trimmed.toLowerCase()];
+  if (macro) {
+    return macro;
+  }
+
+  const fields = trimmed.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression '${expression}': expected 5 fields`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+  // cron matches either day field when both are restricted, systemd requires both
+  if (dayOfMonth !== '*' && dayOfWeek !== '*') {
+    throw new Error(`Invalid cron expression '${expression}': day of month and day of week cannot both be set`);
+  }
+
+  const date = `*-${translateField(month, MONTH)}-${translateField(dayOfMonth, DAY_OF_MONTH)}`;
+  const time = `${translateField(hour, HOUR)}:${translateField(minute, MINUTE)}:00`;
+
+  if (dayOfWeek === '*') {
+    return `${date} ${time}`;
+  }
+
+  return `${translateWeekdays(dayOfWeek)} ${date} ${time}`;
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    cronToOnCalendar(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a retention window such as "12h", "7d" or "4w" into milliseconds
+ */
+export function parseRetention(retention: string): number {
+  const match = retention.trim().match(/^(\d+)([hdw])$/);
+  if (!match || !match[1] || !match[2]) {
+    throw new Error(`Invalid retention '${retention}'. Use a number followed by h, d or w (e.g. "7d")`);
+  }
+
+  return parseInt(match[1]) * RETENTION_UNITS[match[2]]!;
+}
+
+export function isValidRetention(retention: string): boolean {
+  try {
+    parseRetention(retention);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function translateField(value: string, field: CronField): string {
+  if (value === '*') {
+    return '*';
+  }
+
+  return value.split(',').map(part => {
+    const [range, step] = part.split('/');
+    if (range === undefined || range === '') {
+      throw new Error(`Invalid ${field.name} '${value}'`);
+    }
+
+    if (step !== undefined) {
+      const stepValue = parseCronNumber(step, { ...field, min: 1, names: undefined });
+      if (range === '*') {
+        return `${pad(field.min)}/${stepValue}`;
+      }
+      if (range.includes('-')) {
+        throw new Error(`Invalid ${field.name} '${value}': stepped ranges are not supported`);
+      }
+      return `${pad(parseCronNumber(range, field))}/${stepValue}`;
+    }
+
+    if (range.includes('-')) {
+      const [start, end] = range.split('-');
+      return `${pad(parseCronNumber(start || '', field))}..${pad(parseCronNumber(end || '', field))}`;
+    }
+
+    return pad(parseCronNumber(range, field));
+  }).join(',');
+}
+
+function translateWeekdays(value: string): string {
+  return value.split(',').map(part => {
+    if (part.includes('/')) {
+      throw new Error(`Invalid day of week '${value}': steps are not supported`);
+    }
+
+    if (part.includes('-')) {
+      const [start, end] = part.split('-');
+      return `${weekdayName(start || '')}..${weekdayName(end || '')}`;
+    }
+
+    return weekdayName(part);
+  }).join(',');
+}
+
+function weekdayName(value: string): string {
+  return WEEKDAYS[parseCronNumber(value, DAY_OF_WEEK) % 7]!;
+}
+
+function parseCronNumber(value: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (field.nameOffset || 0);
+  }
+
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} '${value}'`);
+  }
+
+  const number = parseInt(value);
+  if (number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} '${value}': must be between ${field.min} and ${field.max}`);
+  }
+
+  return number;
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0');
+}
@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'bun:test';
+import { calculateTuning, formatMemorySize, parseMemorySize, detectDiskType } from './tuning.js';
+import type { TuningInput } from './tuning.js';
+
+const GB = 1024 * 1024 * 1024;
+
+const server: TuningInput = {
+  memoryBytes: 16 * GB,
+  cpuCount: 4,
+  diskType: 'ssd',
+  workload: 'oltp',
+  maxConnections: 100,
+  instanceCount: 1,
+};
+
+describe('Tuning Calculation', () => {
+  test('should size memory settings for an OLTP server', () => {
+    const settings = calculateTuning(server);
+    expect(settings.sharedBuffers).toBe('4GB');
+    expect(settings.effectiveCacheSize).toBe('12GB');
+    expect(settings.maintenanceWorkMem).toBe('1GB');
+    expect(settings.workMem).toBe('40MB');
+    expect(settings.maxWorkerProcesses).toBe(8);
+    expect(settings.randomPageCost).toBe(1.1);
+  });
+
+  test('should split memory between instances on the same machine', () => {
+    const settings = calculateTuning({ ...server, instanceCount: 4 });
+    expect(settings.sharedBuffers).toBe('1GB');
+    expect(settings.effectiveCacheSize).toBe('3GB');
+  });
+
+  test('should give OLAP more memory per operation', () => {
+    const settings = calculateTuning({ ...server, workload: 'olap', cpuCount: 32 });
+    expect(settings.workMem).toBe('122MB');
+    expect(settings.maintenanceWorkMem).toBe('2GB');
+    expect(settings.maxWorkerProcesses).toBe(32);
+  });
+
+  test('should keep development instances small', () => {
+    const settings = calculateTuning({ ...server, workload: 'dev' });
+    expect(settings.sharedBuffers).toBe('1GB');
+    expect(settings.effectiveCacheSize).toBe('4GB');
+  });
+
+  test('should only set random_page_cost for a known disk type', () => {
+    expect(calculateTuning({ ...server, diskType: 'hdd' }).randomPageCost).toBe(4);
+    expect(calculateTuning({ ...server, diskType: 'unknown' }).randomPageCost).toBeUndefined();
+  });
+
+  test('should not go below the minimum work_mem', () => {
+    const settings = calculateTuning({ ...server, memoryBytes: 512 * 1024 * 1024, maxConnections: 5000 });
+    expect(settings.workMem).toBe('64kB');
+  });
+});
+
+describe('Memory Sizes', () => {
+  test('should parse PostgreSQL memory sizes', () => {
+    expect(parseMemorySize('4GB')).toBe(4 * GB);
+    expect(parseMemorySize('512MB')).toBe(512 * 1024 * 1024);
+    expect(() => parseMemorySize('4 gigs')).toThrow('Invalid memory size');
+  });
+
+  test('should format in the largest whole unit', () => {
+    expect(formatMemorySize(2 * GB)).toBe('2GB');
+    expect(formatMemorySize(1.5 * GB)).toBe('1536MB');
+    expect(formatMemorySize(100.7 * 1024 * 1024)).toBe('100MB');
+    expect(formatMemorySize(3000 * 1024)).toBe('2MB');
+    expect(formatMemorySize(512 * 1024)).toBe('512kB');
+  });
+});
+
+describe('Disk Detection', () => {
+  test('should fall back to an existing parent for missing paths', () => {
+    expect(['ssd', 'hdd', 'unknown']).toContain(detectDiskType('/nonexistent/pgforge/data'));
+  });
+});
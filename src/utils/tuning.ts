@@ -0,0 +1,132 @@
+import { execFileSync } from 'child_process';
+import { existsSync } from 'fs';
+import { availableParallelism, totalmem } from 'os';
+import { dirname } from 'path';
+import type { PostgreSQLInstanceConfig } from '../config/types.js';
+
+export type Workload = 'oltp' | 'olap' | 'dev';
+export type DiskType = 'ssd' | 'hdd' | 'unknown';
+
+export const WORKLOADS: Workload[] = ['oltp', 'olap', 'dev'];
+
+export interface HardwareProfile {
+  memoryBytes: number;
+  cpuCount: number;
+  diskType: DiskType;
+}
+
+export interface TuningInput extends HardwareProfile {
+  workload: Workload;
+  maxConnections: number;
+  // Instances sharing the machine, including the one being tuned
+  instanceCount: number;
+}
+
+export type PerformanceSettings = NonNullable<PostgreSQLInstanceConfig['spec']['performance']>;
+
+const KB = 1024;
+const MB = 1024 * KB;
+const GB = 1024 * MB;
+
+const MEMORY_UNITS: Record<string, number> = { B: 1, kB: KB, MB, GB, TB: 1024 * GB };
+
+// Fractions of the instance's memory share, per workload
+const SHARED_BUFFERS_RATIO: Record<Workload, number> = { oltp: 1 / 4, olap: 1 / 4, dev: 1 / 16 };
+const EFFECTIVE_CACHE_RATIO: Record<Workload, number> = { oltp: 3 / 4, olap: 3 / 4, dev: 1 / 4 };
+const MAINTENANCE_WORK_MEM_RATIO: Record<Workload, number> = { oltp: 1 / 16, olap: 1 / 8, dev: 1 / 16 };
+// Sort and hash operations a connection is expected to run at once
+const OPERATIONS_PER_CONNECTION: Record<Workload, number> = { oltp: 3, olap: 1, dev: 6 };
+
+const MAX_MAINTENANCE_WORK_MEM = 2 * GB;
+const MIN_WORK_MEM = 64 * KB;
+
+/**
+ * Compute spec.performance values for an instance from the hardware it runs
+ * on. Memory is split evenly between the instances sharing the machine.
+ */
+export function calculateTuning(input: TuningInput): PerformanceSettings {
+  const memory = input.memoryBytes / Math.max(1, input.instanceCount);
+
+  const sharedBuffers = memory * SHARED_BUFFERS_RATIO[input.workload];
+  const maintenanceWorkMem = Math.min(memory * MAINTENANCE_WORK_MEM_RATIO[input.workload], MAX_MAINTENANCE_WORK_MEM);
+  const workMem = Math.max(
+    (memory - sharedBuffers) / (input.maxConnections * OPERATIONS_PER_CONNECTION[input.workload]),
+    MIN_WORK_MEM
+  );
+
+  const settings: PerformanceSettings = {
+    sharedBuffers: formatMemorySize(sharedBuffers),
+    effectiveCacheSize: formatMemorySize(memory * EFFECTIVE_CACHE_RATIO[input.workload]),
+    workMem: formatMemorySize(workMem),
+    maintenanceWorkMem: formatMemorySize(maintenanceWorkMem),
+    maxWorkerProcesses: Math.max(8, input.cpuCount),
+  };
+
+  if (input.diskType === 'ssd') {
+    settings.randomPageCost = 1.1;
+  } else if (input.diskType === 'hdd') {
+    settings.randomPageCost = 4;
+  }
+
+  return settings;
+}
+
+/**
+ * Inspect the machine: total memory, CPU count and whether the disk holding
+ * `path` is rotational
+ */
+export function detectHardware(path: string): HardwareProfile {
+  return {
+    memoryBytes: totalmem(),
+    cpuCount: availableParallelism(),
+    diskType: detectDiskType(path),
+  };
+}
+
+export function detectDiskType(path: string): DiskType {
+  // The data directory may not exist yet when tuning a new instance
+  let existing = path;
+  while (!existsSync(existing) && dirname(existing) !== existing) {
+    existing = dirname(existing);
+  }
+
+  try {
+    const device = execFileSync('findmnt', ['-no', 'SOURCE', '--target', existing], { encoding: 'utf8', stdio: 'pipe' }).trim();
+    const rotational = execFileSync('lsblk', ['-dno', 'ROTA', device], { encoding: 'utf8', stdio: 'pipe' }).trim();
+
+    if (rotational === '0') return 'ssd';
+    if (rotational === '1') return 'hdd';
+  } catch {
+    // Not a block device (tmpfs, overlay, network storage) or tools missing
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Parse a PostgreSQL-style memory size ("4GB", "512MB") into bytes
+ */
+export function parseMemorySize(size: string): number {
+  const match = size.trim().match(/^(\d+(?:\.\d+)?)\s*(B|kB|MB|GB|TB)$/);
+  if (!match || !match[1] || !match[2]) {
+    throw new Error(`Invalid memory size '${size}'. Use a format like "512MB" or "4GB"`);
+  }
+
+  return parseFloat(match[1]) * MEMORY_UNITS[match[2]]!;
+}
+
+/**
+ * Format bytes in the largest unit that keeps a whole number, rounding down
+ * to whole megabytes from 1MB up
+ */
+export function formatMemorySize(bytes: number): string {
+  const rounded = bytes >= MB ? Math.floor(bytes / MB) * MB : Math.floor(bytes / KB) * KB;
+
+  if (rounded >= GB && rounded % GB === 0) {
+    return `${rounded / GB}GB`;
+  }
+  if (rounded >= MB && rounded % MB === 0) {
+    return `${rounded / MB}MB`;
+  }
+  return `${Math.max(1, rounded / KB)}kB`;
+}
@@ -1,4 +1,5 @@
 import { describe, test, expect } from 'bun:test';
+import * as YAML from 'yaml';
 import {
   isValidInstanceName,
   isValidPort,
@@ -9,8 +10,10 @@ import {
   isValidMemorySize,
   validateInstanceConfig,
   validatePortAvailable,
-  suggestAvailablePort
+  suggestAvailablePort,
+  validateParameters
 } from './validation.js';
+import { parseDescribeConfig } from './postgres.js';
 import type { PostgreSQLInstanceConfig } from '../config/types.js';
 
 describe('Instance Name Validation', () => {
@@ -214,6 +217,153 @@ describe('Instance Config Validation', () => {
     const errors = validateInstanceConfig(invalidConfig);
     expect(errors.some(e => e.field === 'spec.security.authentication.method')).toBe(true);
   });
+
+  test('should fail validation for invalid audit settings', () => {
+    const invalidConfig = {
+      ...validConfig,
+      spec: {
+        ...validConfig.spec,
+        security: {
+          audit: {
+            enabled: true,
+            logLevel: 'verbose',
+            logStatements: ['ddl', 'select'],
+            pgaudit: { enabled: true, classes: ['ddl', '-misc', 'everything'] }
+          }
+        }
+      }
+    };
+
+    const errors = validateInstanceConfig(invalidConfig);
+    expect(errors.some(e => e.field === 'spec.security.audit.logLevel')).toBe(true);
+    expect(errors.find(e => e.field === 'spec.security.audit.logStatements')?.message).toContain('select');
+    expect(errors.find(e => e.field === 'spec.security.audit.pgaudit.classes')?.message).toContain('everything');
+    expect(errors.find(e => e.field === 'spec.security.audit.pgaudit.classes')?.message).not.toContain('-misc');
+  });
+
+  test('should reject parameters PgForge manages', () => {
+    const invalidConfig = {
+      ...validConfig,
+      spec: { ...validConfig.spec, parameters: { port: '5433', data_directory: '/tmp', 'bad name': 'x', jit: 'off' } }
+    };
+
+    const errors = validateInstanceConfig(invalidConfig);
+    expect(errors.find(e => e.field === 'spec.parameters.port')?.message).toBe('Set spec.network.port instead');
+    expect(errors.find(e => e.field === 'spec.parameters.data_directory')?.message).toContain('managed by PgForge');
+    expect(errors.some(e => e.field === 'spec.parameters.bad name')).toBe(true);
+    expect(errors.some(e => e.field === 'spec.parameters.jit')).toBe(false);
+  });
+
+  test('should validate declared databases and roles', () => {
+    const invalidConfig: PostgreSQLInstanceConfig = {
+      ...validConfig,
+      spec: {
+        ...validConfig.spec,
+        databases: [{ name: 'reports' }, { name: 'reports' }],
+        roles: [
+          { name: 'reader', privileges: [{ database: 'reports', on: 'tables', privileges: ['select'] }] },
+          { name: 'postgres' },
+          { name: 'writer', privileges: [{ database: 'reports', on: 'schema', privileges: ['select'] }] },
+          { name: 'auditor', defaultPrivileges: [{ database: 'reports', on: 'database' as any, privileges: ['connect'] }] },
+        ]
+      }
+    };
+
+    const errors = validateInstanceConfig(invalidConfig);
+    expect(errors.find(e => e.field === 'spec.databases[1].name')?.message).toContain('more than once');
+    expect(errors.some(e => e.field.startsWith('spec.roles[0]'))).toBe(false);
+    expect(errors.some(e => e.field === 'spec.roles[1].name')).toBe(true);
+    expect(errors.some(e => e.field === 'spec.roles[2].privileges[0].privileges')).toBe(true);
+    expect(errors.some(e => e.field === 'spec.roles[3].defaultPrivileges[0].on')).toBe(true);
+  });
+
+  test('should validate extensions', () => {
+    const invalidConfig: PostgreSQLInstanceConfig = {
+      ...validConfig,
+      spec: {
+        ...validConfig.spec,
+        extensions: [
+          { name: 'pg_stat_statements' },
+          { name: 'pg_stat_statements', database: 'testdb' },
+          { name: 'Bad Name', version: "1.0'; DROP" },
+        ]
+      }
+    };
+
+    const errors = validateInstanceConfig(invalidConfig);
+    expect(errors.some(e => e.field.startsWith('spec.extensions[0]'))).toBe(false);
+    expect(errors.find(e => e.field === 'spec.extensions[1].name')?.message).toContain('more than once');
+    expect(errors.some(e => e.field === 'spec.extensions[2].name')).toBe(true);
+    expect(errors.some(e => e.field === 'spec.extensions[2].version')).toBe(true);
+  });
+
+  test('should reject extension versions YAML read as numbers', () => {
+    const extensions = YAML.parse(`
+- name: pg_stat_statements
+  version: 1.6
+- name: pgcrypto
+  version: '1.3'
+`);
+
+    const errors = validateInstanceConfig({ ...validConfig, spec: { ...validConfig.spec, extensions } });
+    expect(errors.find(e => e.field === 'spec.extensions[0].version')?.message).toContain("quote it, e.g. '1.6'");
+    expect(errors.some(e => e.field === 'spec.extensions[1].version')).toBe(false);
+  });
+
+  test('should validate pg_hba rules', () => {
+    const invalidConfig: PostgreSQLInstanceConfig = {
+      ...validConfig,
+      spec: {
+        ...validConfig.spec,
+        security: {
+          authentication: {
+            method: 'scram-sha-256',
+            allowedHosts: ['10.0.0.1'],
+            rules: [
+              { type: 'host', database: 'app', user: 'app_user', address: '10.0.0.0/8', method: 'scram-sha-256' },
+              { type: 'host', database: 'all', user: 'all', address: '10.0.0.0/40', method: 'reject' },
+              { type: 'local', database: 'all', user: 'all', address: '10.0.0.0/8', method: 'peer' },
+              { type: 'host', database: 'all', user: 'all', address: 'db.example.com', method: 'cert' },
+            ]
+          }
+        }
+      }
+    };
+
+    const errors = validateInstanceConfig(invalidConfig);
+    expect(errors.some(e => e.field === 'spec.security.authentication.allowedHosts[0]')).toBe(true);
+    expect(errors.some(e => e.field.startsWith('spec.security.authentication.rules[0]'))).toBe(false);
+    expect(errors.some(e => e.field === 'spec.security.authentication.rules[1].address')).toBe(true);
+    expect(errors.some(e => e.field === 'spec.security.authentication.rules[2].address')).toBe(true);
+    expect(errors.find(e => e.field === 'spec.security.authentication.rules[3].method')?.message).toContain('hostssl');
+  });
+});
+
+describe('Parameter Validation', () => {
+  const definitions = parseDescribeConfig([
+    'jit\tuser\tQuery Tuning\tBOOLEAN\ton\t\t\tAllow JIT compilation.\t',
+    'max_parallel_workers\tuser\tResource Usage\tINTEGER\t8\t0\t1024\tMaximum parallel workers.\t',
+    'seq_page_cost\tuser\tQuery Tuning\tREAL\t1\t0\t1.79769e+308\tCost of a page fetch.\t',
+    'statement_timeout\tuser\tClient Connection Defaults\tINTEGER\t0\t0\t2147483647\tTimeout.\t',
+  ].join('\n'));
+
+  test('should parse describe-config output', () => {
+    expect(definitions.get('jit')?.type).toBe('bool');
+    expect(definitions.get('max_parallel_workers')).toMatchObject({ type: 'integer', context: 'user', min: 0, max: 1024 });
+  });
+
+  test('should accept known parameters with valid values', () => {
+    expect(validateParameters({ jit: 'off', max_parallel_workers: '4', seq_page_cost: '0.5', statement_timeout: '30s' }, definitions)).toHaveLength(0);
+  });
+
+  test('should accept extension parameters it cannot check', () => {
+    expect(validateParameters({ 'pg_stat_statements.max': '10000' }, definitions)).toHaveLength(0);
+  });
+
+  test('should reject unknown parameters and invalid values', () => {
+    const errors = validateParameters({ jitt: 'on', jit: 'maybe', max_parallel_workers: '2000', seq_page_cost: '1' }, definitions);
+    expect(errors.map(e => e.field)).toEqual(['spec.parameters.jitt', 'spec.parameters.jit', 'spec.parameters.max_parallel_workers']);
+  });
 });
 
 describe('Port Availability Validation', () => {
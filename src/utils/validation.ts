@@ -1,4 +1,9 @@
-import type { PostgreSQLInstanceConfig } from '../config/types.js';
+import { isIP } from 'net';
+import type { PostgreSQLInstanceConfig, HbaRule, RoleSpec } from '../config/types.js';
+import { isValidCronExpression, isValidRetention } from './schedule.js';
+import { LOG_MIN_MESSAGES_LEVELS, LOG_STATEMENT_LEVELS, PGAUDIT_CLASSES, MANAGED_PARAMETERS, HBA_TYPES, HBA_METHODS, PRIVILEGES, SECRET_PROVIDERS } from './constants.js';
+import type { SecretProviderName } from './constants.js';
+import type { ParameterDefinition } from './postgres.js';
 
 export interface ValidationError {
   field: string;
@@ -79,12 +84,159 @@ export function validateInstanceConfig(config: PostgreSQLInstanceConfig): Valida
 
   // Validate authentication method
   if (config.spec?.security?.authentication?.method) {
-    const validMethods = ['md5', 'scram-sha-256', 'trust', 'peer'];
+    const validMethods = ['md5', 'scram-sha-256', 'trust', 'peer', 'cert'];
     if (!validMethods.includes(config.spec.security.authentication.method)) {
       errors.push({ 
         field: 'spec.security.authentication.method', 
         message: `Authentication method must be one of: ${validMethods.join(', ')}` 
       });
+    } else if (config.spec.security.authentication.method === 'cert' && !config.spec.security.ssl?.enabled) {
+      errors.push({
+        field: 'spec.security.authentication.method',
+        message: 'cert authentication requires spec.security.ssl.enabled'
+      });
+    }
+  }
+
+  // Validate declared databases and roles
+  const databaseNames = new Set<string>();
+  for (const [index, database] of (config.spec?.databases || []).entries()) {
+    const field = `spec.databases[${index}]`;
+    if (!database.name || !isValidDatabaseName(database.name)) {
+      errors.push({ field: `${field}.name`, message: 'Database name must contain only letters, numbers, and underscores' });
+    } else if (databaseNames.has(database.name)) {
+      errors.push({ field: `${field}.name`, message: `Database '${database.name}' is listed more than once` });
+    }
+    databaseNames.add(database.name);
+
+    if (database.owner && !isValidUserName(database.owner)) {
+      errors.push({ field: `${field}.owner`, message: 'User name must contain only letters, numbers, and underscores' });
+    }
+  }
+
+  const roleNames = new Set<string>();
+  for (const [index, role] of (config.spec?.roles || []).entries()) {
+    const field = `spec.roles[${index}]`;
+    if (!role.name || !isValidUserName(role.name)) {
+      errors.push({ field: `${field}.name`, message: 'User name must contain only letters, numbers, and underscores' });
+    } else if (role.name === 'postgres' || role.name === config.spec.database?.owner) {
+      errors.push({ field: `${field}.name`, message: `Role '${role.name}' is managed by PgForge` });
+    } else if (roleNames.has(role.name)) {
+      errors.push({ field: `${field}.name`, message: `Role '${role.name}' is listed more than once` });
+    }
+    roleNames.add(role.name);
+
+    errors.push(...validateRoleSpec(role, field));
+  }
+
+  // Validate extensions
+  const extensionKeys = new Set<string>();
+  for (const [index, extension] of (config.spec?.extensions || []).entries()) {
+    const field = `spec.extensions[${index}]`;
+    if (!extension.name || !/^[a-z0-9_-]+$/.test(extension.name)) {
+      errors.push({ field: `${field}.name`, message: 'Extension name must contain only lowercase letters, numbers, underscores and hyphens' });
+    }
+    if (extension.database && !isValidDatabaseName(extension.database)) {
+      errors.push({ field: `${field}.database`, message: 'Database name must contain only letters, numbers, and underscores' });
+    }
+    if (extension.schema && !isValidDatabaseName(extension.schema)) {
+      errors.push({ field: `${field}.schema`, message: 'Schema name must contain only letters, numbers, and underscores' });
+    }
+    // YAML reads an unquoted 1.6 as a number, which would not match the server's versions
+    if (extension.version !== undefined && typeof extension.version !== 'string') {
+      errors.push({ field: `${field}.version`, message: `Extension version must be a string; quote it, e.g. '${extension.version}'` });
+    } else if (extension.version !== undefined && !/^[\w.-]+$/.test(extension.version)) {
+      errors.push({ field: `${field}.version`, message: 'Invalid extension version' });
+    }
+
+    const key = `${extension.name}@${extension.database || config.spec?.database?.name}`;
+    if (extensionKeys.has(key)) {
+      errors.push({ field: `${field}.name`, message: `Extension '${extension.name}' is listed more than once for the same database` });
+    }
+    extensionKeys.add(key);
+  }
+
+  // Validate allowed hosts and pg_hba rules
+  for (const [index, host] of (config.spec?.security?.authentication?.allowedHosts || []).entries()) {
+    if (!isValidHbaAddress(host)) {
+      errors.push({
+        field: `spec.security.authentication.allowedHosts[${index}]`,
+        message: `Invalid address '${host}'. Use a CIDR such as 10.0.0.0/8 or 127.0.0.1/32`
+      });
+    }
+  }
+
+  for (const [index, rule] of (config.spec?.security?.authentication?.rules || []).entries()) {
+    errors.push(...validateHbaRule(rule, `spec.security.authentication.rules[${index}]`, Boolean(config.spec.security?.ssl?.enabled)));
+  }
+
+  // Validate secret references
+  for (const field of ['passwordRef', 'superuserPasswordRef'] as const) {
+    const ref = config.spec?.database?.[field];
+    if (ref) {
+      try {
+        parseSecretRef(ref);
+      } catch (error) {
+        errors.push({
+          field: `spec.database.${field}`,
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  // Validate SSL files
+  const ssl = config.spec?.security?.ssl;
+  if (ssl?.enabled && Boolean(ssl.certificatePath) !== Boolean(ssl.keyPath)) {
+    errors.push({
+      field: 'spec.security.ssl',
+      message: 'certificatePath and keyPath must be set together'
+    });
+  }
+
+  // Validate audit settings
+  const audit = config.spec?.security?.audit;
+  if (audit?.logLevel && !LOG_MIN_MESSAGES_LEVELS.includes(audit.logLevel)) {
+    errors.push({
+      field: 'spec.security.audit.logLevel',
+      message: `Log level must be one of: ${LOG_MIN_MESSAGES_LEVELS.join(', ')}`
+    });
+  }
+
+  if (audit?.logStatements) {
+    const invalid = audit.logStatements.filter(statement => !LOG_STATEMENT_LEVELS.includes(statement));
+    if (invalid.length > 0) {
+      errors.push({
+        field: 'spec.security.audit.logStatements',
+        message: `Invalid statement types: ${invalid.join(', ')}. Use: ${LOG_STATEMENT_LEVELS.join(', ')}`
+      });
+    }
+  }
+
+  if (audit?.pgaudit?.classes) {
+    // pgaudit accepts "-class" to exclude a class from a broader one
+    const invalid = audit.pgaudit.classes.filter(auditClass => !PGAUDIT_CLASSES.includes(auditClass.replace(/^-/, '')));
+    if (invalid.length > 0) {
+      errors.push({
+        field: 'spec.security.audit.pgaudit.classes',
+        message: `Invalid pgaudit classes: ${invalid.join(', ')}. Use: ${PGAUDIT_CLASSES.join(', ')}`
+      });
+    }
+  }
+
+  // Validate custom parameter names
+  for (const name of Object.keys(config.spec?.parameters || {})) {
+    const managedBy = MANAGED_PARAMETERS[name.toLowerCase()];
+    if (!/^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i.test(name)) {
+      errors.push({
+        field: `spec.parameters.${name}`,
+        message: 'Invalid parameter name'
+      });
+    } else if (managedBy) {
+      errors.push({
+        field: `spec.parameters.${name}`,
+        message: managedBy === 'PgForge' ? 'This parameter is managed by PgForge' : `Set ${managedBy} instead`
+      });
     }
   }
 
@@ -103,6 +255,30 @@ export function validateInstanceConfig(config: PostgreSQLInstanceConfig): Valida
     }
   }
 
+  const checkpointCompletionTarget = config.spec?.performance?.checkpointCompletionTarget;
+  if (checkpointCompletionTarget !== undefined && (typeof checkpointCompletionTarget !== 'number' || checkpointCompletionTarget < 0 || checkpointCompletionTarget > 1)) {
+    errors.push({
+      field: 'spec.performance.checkpointCompletionTarget',
+      message: 'Must be a number between 0 and 1'
+    });
+  }
+
+  const maxWorkerProcesses = config.spec?.performance?.maxWorkerProcesses;
+  if (maxWorkerProcesses !== undefined && (!Number.isInteger(maxWorkerProcesses) || maxWorkerProcesses < 0 || maxWorkerProcesses > 262143)) {
+    errors.push({
+      field: 'spec.performance.maxWorkerProcesses',
+      message: 'Must be an integer between 0 and 262143'
+    });
+  }
+
+  const randomPageCost = config.spec?.performance?.randomPageCost;
+  if (randomPageCost !== undefined && (typeof randomPageCost !== 'number' || randomPageCost < 0)) {
+    errors.push({
+      field: 'spec.performance.randomPageCost',
+      message: 'Must be a non-negative number'
+    });
+  }
+
   // Validate backup format
   if (config.spec?.backup?.format) {
     const validFormats = ['custom', 'plain', 'directory', 'tar'];
@@ -114,9 +290,215 @@ export function validateInstanceConfig(config: PostgreSQLInstanceConfig): Valida
     }
   }
 
+  // Validate backup schedule and retention
+  if (config.spec?.backup?.schedule && !isValidCronExpression(config.spec.backup.schedule)) {
+    errors.push({ 
+      field: 'spec.backup.schedule', 
+      message: 'Invalid cron expression. Use five fields like "0 2 * * *" or a macro like "@daily"' 
+    });
+  }
+
+  if (config.spec?.backup?.retention && !isValidRetention(config.spec.backup.retention)) {
+    errors.push({ 
+      field: 'spec.backup.retention', 
+      message: 'Invalid retention. Use a number followed by h, d or w (e.g. "7d")' 
+    });
+  }
+
+  // Validate backup type
+  if (config.spec?.backup?.type) {
+    const validTypes = ['logical', 'physical'];
+    if (!validTypes.includes(config.spec.backup.type)) {
+      errors.push({ 
+        field: 'spec.backup.type', 
+        message: `Backup type must be one of: ${validTypes.join(', ')}` 
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check spec.parameters against the settings a PostgreSQL server binary
+ * knows about. Dotted names belong to extensions that may not be loaded
+ * yet and are accepted as-is.
+ */
+export function validateParameters(
+  parameters: Record<string, string>,
+  definitions: Map<string, ParameterDefinition>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  for (const [name, rawValue] of Object.entries(parameters)) {
+    const field = `spec.parameters.${name}`;
+    const value = String(rawValue).trim();
+    const definition = definitions.get(name.toLowerCase());
+
+    if (!definition) {
+      if (!name.includes('.')) {
+        errors.push({ field, message: `Unknown PostgreSQL parameter '${name}'` });
+      }
+      continue;
+    }
+
+    if (definition.type === 'bool' && !/^(on|off|true|false|yes|no|1|0)$/i.test(value)) {
+      errors.push({ field, message: 'Expected a boolean (on or off)' });
+      continue;
+    }
+
+    // Values with units (e.g. "64MB", "5min") are left for the server to check
+    if ((definition.type === 'integer' || definition.type === 'real') && /^-?\d+(\.\d+)?$/.test(value)) {
+      const number = Number(value);
+      if (definition.type === 'integer' && !Number.isInteger(number)) {
+        errors.push({ field, message: 'Expected an integer' });
+      } else if ((definition.min !== undefined && number < definition.min) || (definition.max !== undefined && number > definition.max)) {
+        errors.push({ field, message: `Must be between ${definition.min} and ${definition.max}` });
+      }
+    }
+  }
+
   return errors;
 }
 
+function validateRoleSpec(role: RoleSpec, field: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (role.passwordRef) {
+    try {
+      parseSecretRef(role.passwordRef);
+    } catch (error) {
+      errors.push({ field: `${field}.passwordRef`, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (role.connectionLimit !== undefined && (!Number.isInteger(role.connectionLimit) || role.connectionLimit < -1)) {
+    errors.push({ field: `${field}.connectionLimit`, message: 'Connection limit must be -1 (unlimited) or a positive integer' });
+  }
+
+  for (const group of role.memberOf || []) {
+    if (!isValidUserName(group)) {
+      errors.push({ field: `${field}.memberOf`, message: `Invalid role name '${group}'` });
+    }
+  }
+
+  const grants = [
+    ...(role.privileges || []).map((grant, index) => ({ grant, field: `${field}.privileges[${index}]`, kinds: Object.keys(PRIVILEGES) })),
+    ...(role.defaultPrivileges || []).map((grant, index) => ({ grant, field: `${field}.defaultPrivileges[${index}]`, kinds: ['tables', 'sequences', 'functions'] })),
+  ];
+  for (const { grant, field: grantField, kinds } of grants) {
+    if (!grant.database || !isValidDatabaseName(grant.database)) {
+      errors.push({ field: `${grantField}.database`, message: 'Database name must contain only letters, numbers, and underscores' });
+    }
+    if (grant.schema && !isValidDatabaseName(grant.schema)) {
+      errors.push({ field: `${grantField}.schema`, message: 'Schema name must contain only letters, numbers, and underscores' });
+    }
+    if (!kinds.includes(grant.on)) {
+      errors.push({ field: `${grantField}.on`, message: `Must be one of: ${kinds.join(', ')}` });
+      continue;
+    }
+
+    const allowed = PRIVILEGES[grant.on];
+    const invalid = (grant.privileges || []).filter(privilege => !allowed.includes(privilege.toUpperCase()));
+    if (!grant.privileges?.length || invalid.length > 0) {
+      errors.push({ field: `${grantField}.privileges`, message: `Privileges on ${grant.on} must be some of: ${allowed.join(', ')}` });
+    }
+  }
+
+  if (role.defaultPrivileges?.some(defaults => defaults.forRole && !isValidUserName(defaults.forRole))) {
+    errors.push({ field: `${field}.defaultPrivileges`, message: 'forRole must be a valid role name' });
+  }
+
+  return errors;
+}
+
+function validateHbaRule(rule: HbaRule, field: string, sslEnabled: boolean): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (!HBA_TYPES.includes(rule.type)) {
+    errors.push({ field: `${field}.type`, message: `Type must be one of: ${HBA_TYPES.join(', ')}` });
+  }
+  if (!HBA_METHODS.includes(rule.method)) {
+    errors.push({ field: `${field}.method`, message: `Method must be one of: ${HBA_METHODS.join(', ')}` });
+  }
+
+  for (const key of ['database', 'user'] as const) {
+    if (!rule[key] || /\s/.test(rule[key])) {
+      errors.push({ field: `${field}.${key}`, message: `${key} must be a comma-separated list without spaces (or "all")` });
+    }
+  }
+
+  if (rule.type === 'local') {
+    if (rule.address) {
+      errors.push({ field: `${field}.address`, message: 'local rules do not take an address' });
+    }
+  } else if (!rule.address) {
+    errors.push({ field: `${field}.address`, message: `${rule.type} rules need an address` });
+  } else if (!isValidHbaAddress(rule.address)) {
+    errors.push({
+      field: `${field}.address`,
+      message: `Invalid address '${rule.address}'. Use a CIDR such as 10.0.0.0/8, a hostname, all, samehost or samenet`
+    });
+  }
+
+  if (rule.method === 'peer' && rule.type !== 'local') {
+    errors.push({ field: `${field}.method`, message: 'peer authentication is only available for local rules' });
+  }
+  if (rule.method === 'cert') {
+    if (rule.type !== 'hostssl') {
+      errors.push({ field: `${field}.method`, message: 'cert authentication requires a hostssl rule' });
+    } else if (!sslEnabled) {
+      errors.push({ field: `${field}.method`, message: 'cert authentication requires spec.security.ssl.enabled' });
+    }
+  }
+  if (rule.type === 'hostssl' && !sslEnabled) {
+    errors.push({ field: `${field}.type`, message: 'hostssl rules require spec.security.ssl.enabled' });
+  }
+
+  for (const [name, value] of Object.entries(rule.options || {})) {
+    if (!/^[a-z_]+$/.test(name) || /[\n\r]/.test(String(value))) {
+      errors.push({ field: `${field}.options.${name}`, message: 'Invalid option' });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Address column of a pg_hba.conf host rule: a CIDR, a hostname or one of
+ * the keywords. Bare IP addresses need a prefix length.
+ */
+export function isValidHbaAddress(address: string): boolean {
+  if (['all', 'samehost', 'samenet'].includes(address) || parseCidr(address)) {
+    return true;
+  }
+
+  // Hostnames, optionally starting with "." to match a domain suffix
+  return !address.includes('/')
+    && !/^[\d.]+$/.test(address)
+    && !address.includes(':')
+    && /^\.?[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?)*$/.test(address);
+}
+
+/**
+ * Split an address such as "10.0.0.0/8" into network and prefix length, or
+ * null if it is not a valid CIDR
+ */
+export function parseCidr(value: string): { network: string; prefix: number; family: number } | null {
+  const match = value.match(/^([^/]+)\/(\d{1,3})$/);
+  if (!match || !match[1] || !match[2]) {
+    return null;
+  }
+
+  const family = isIP(match[1]);
+  const prefix = parseInt(match[2]);
+  if (family === 0 || prefix > (family === 4 ? 32 : 128)) {
+    return null;
+  }
+
+  return { network: match[1], prefix, family };
+}
+
 export function isValidInstanceName(name: string): boolean {
   // Allow lowercase letters, numbers, and hyphens
   // Must start with a letter
@@ -212,4 +594,16 @@ export function suggestAvailablePort(preferredPort: number, existingInstances: P
   }
   
   return port;
-}
\ No newline at end of file
+}
+
+export function parseSecretRef(ref: string): { provider: SecretProviderName; key: string } {
+  const separator = ref.indexOf(':');
+  const provider = ref.slice(0, separator) as SecretProviderName;
+  const key = ref.slice(separator + 1);
+
+  if (separator <= 0 || !SECRET_PROVIDERS.includes(provider) || !key) {
+    throw new Error(`Invalid secret reference '${ref}'. Use <provider>:<key> with provider one of: ${SECRET_PROVIDERS.join(', ')}`);
+  }
+
+  return { provider, key };
+}